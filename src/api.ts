@@ -92,6 +92,17 @@ interface MessageMeta {
     timestamp_?: 'absolute' & (string & {})
     citations?: Citation[]
     _cite_metadata?: CiteMetadata
+    attachments?: MessageAttachment[]
+}
+
+/** Files uploaded along with a message */
+export interface MessageAttachment {
+    id: string
+    name: string
+    size?: number
+    mime_type?: string
+    // older conversations use camelCase
+    mimeType?: string
 }
 
 export type AuthorRole = 'system' | 'assistant' | 'user' | 'tool'
@@ -117,9 +128,11 @@ interface MultiModalInputImage {
     }
 }
 
-interface MultiModalInputAudio {
+export interface MultiModalInputAudio {
     content_type: 'audio_asset_pointer'
     audio_asset_pointer: string
+    // newer conversations use `asset_pointer` like images
+    asset_pointer?: string
     expiry_datetime: string
     format: string
     metadata: {
@@ -130,7 +143,7 @@ interface MultiModalInputAudio {
     size_bytes: number
 }
 
-interface MultiModalAudioVideoAssetPointer {
+export interface MultiModalAudioVideoAssetPointer {
     content_type: 'real_time_user_audio_video_asset_pointer'
     expiry_datetime: string
     frames_asset_pointers: unknown[]
@@ -156,7 +169,7 @@ interface MultiModalAudioVideoAssetPointer {
     audio_start_timestamp: number
 }
 
-interface MultiModalAudioTranscription {
+export interface MultiModalAudioTranscription {
     content_type: 'audio_transcription'
     decoding_id: null
     direction: 'in' | 'out'
@@ -222,6 +235,23 @@ export interface ConversationNode {
     id: string
     message?: ConversationNodeMessage
     parent?: string
+    /**
+     * Only set in full tree mode, for nodes that have siblings
+     * (edited prompts or regenerated responses).
+     */
+    variant?: ConversationNodeVariant
+}
+
+export interface ConversationNodeVariant {
+    /** 1-based position among the siblings */
+    index: number
+    total: number
+    /** dot separated variant indices from the root, eg. `2.1` */
+    branch: string
+    /** eg. `Response 2 of 3` */
+    label: string
+    /** whether the node is on the path to `current_node` */
+    isCurrent: boolean
 }
 
 export interface ApiConversation {
@@ -236,6 +266,8 @@ export interface ApiConversation {
     is_archived: boolean
     update_time: number
     safe_urls?: string[]
+    /** id of the custom GPT or project the conversation belongs to */
+    gizmo_id?: string | null
 }
 
 export type ApiConversationWithId = ApiConversation & {
@@ -246,6 +278,11 @@ export interface ApiConversationItem {
     id: string
     title: string
     create_time: number
+    /**
+     * An iso8601 string from the conversation list api, unix seconds
+     * for conversations read from an export file
+     */
+    update_time?: number | string
 }
 
 export interface ApiConversations {
@@ -268,7 +305,26 @@ export interface ApiProjectInfo {
     id: string
     organization_id: string
     display: { name: string; description: string }
-    // todo: support exporting project context
+    /** custom instructions of the project, only available from the gizmo api */
+    instructions?: string
+    created_at?: string
+    updated_at?: string
+}
+
+export interface ApiProjectFile {
+    id: string
+    file_id?: string
+    name: string
+    type?: string
+    size?: number
+    /** iso8601 datetime string */
+    created_at?: string
+}
+
+/** Full project record from the gizmo api, including its knowledge files */
+export interface ApiProjectDetail {
+    gizmo: ApiProjectInfo
+    files?: ApiProjectFile[]
 }
 
 interface ApiAccountsCheckAccountDetail {
@@ -311,7 +367,7 @@ interface ApiAccountsCheck {
     account_ordering: string[]
 }
 
-type ApiFileDownload = {
+export type ApiFileDownload = {
     status: 'success'
     /** signed download url */
     download_url: string
@@ -352,7 +408,9 @@ const sessionApi = urlcat(baseUrl, '/api/auth/session')
 const conversationApi = (id: string) => urlcat(apiUrl, '/conversation/:id', { id })
 const conversationsApi = (offset: number, limit: number) => urlcat(apiUrl, '/conversations', { offset, limit })
 const fileDownloadApi = (id: string) => urlcat(apiUrl, '/files/:id/download', { id })
+const interpreterDownloadApi = (conversationId: string, messageId: string, sandboxPath: string) => urlcat(apiUrl, '/conversation/:conversationId/interpreter/download', { conversationId, message_id: messageId, sandbox_path: sandboxPath })
 const projectsApi = () => urlcat(apiUrl, '/gizmos/snorlax/sidebar', { conversations_per_gizmo: 0 })
+const projectApi = (gizmo: string) => urlcat(apiUrl, '/gizmos/:gizmo', { gizmo })
 const projectConversationsApi = (gizmo: string, offset: number, limit: number) => urlcat(apiUrl, '/gizmos/:gizmo/conversations', { gizmo, cursor: offset, limit })
 const accountsCheckApi = urlcat(apiUrl, '/accounts/check/v4-2023-04-27')
 
@@ -386,6 +444,53 @@ async function fetchImageFromPointer(uri: string) {
     return base64.replace(/^data:.*?;/, `data:${image.headers.get('content-type')};`)
 }
 
+export interface DownloadedFile {
+    fileName: string
+    mimeType: string
+    blob: Blob
+}
+
+async function downloadApiFile(details: ApiFileDownload, fallbackName: string): Promise<DownloadedFile | null> {
+    if (details.status === 'error') {
+        console.error('Failed to fetch file', details.error_code, details.error_message)
+        return null
+    }
+
+    const response = await fetch(details.download_url)
+    if (!response.ok) throw new Error(response.statusText)
+    const blob = await response.blob()
+    return {
+        fileName: details.file_name || fallbackName,
+        mimeType: response.headers.get('content-type') || blob.type || 'application/octet-stream',
+        blob,
+    }
+}
+
+/** download an uploaded file by its id (`file-xxx`, `file-service://file-xxx` or `sediment://file_xxx`) */
+export async function fetchFile(fileId: string, fallbackName = fileId): Promise<DownloadedFile | null> {
+    const pointer = fileId.replace(/^(file-service|sediment):\/\//, '')
+    const details = await fetchApi<ApiFileDownload>(fileDownloadApi(pointer))
+    return downloadApiFile(details, fallbackName)
+}
+
+/** resolve a `file-service://` or `sediment://` pointer to a signed download url */
+export async function fetchFileDownloadUrl(uri: string): Promise<string | null> {
+    const pointer = uri.replace(/^(file-service|sediment):\/\//, '')
+    const details = await fetchApi<ApiFileDownload>(fileDownloadApi(pointer))
+    if (details.status === 'error') {
+        console.error('Failed to fetch file', details.error_code, details.error_message)
+        return null
+    }
+    return details.download_url
+}
+
+/** download a file generated by code interpreter, eg. `sandbox:/mnt/data/result.csv` */
+export async function fetchSandboxFile(conversationId: string, messageId: string, sandboxPath: string): Promise<DownloadedFile | null> {
+    const path = sandboxPath.replace(/^sandbox:/, '')
+    const details = await fetchApi<ApiFileDownload>(interpreterDownloadApi(conversationId, messageId, path))
+    return downloadApiFile(details, path.split('/').pop() || path)
+}
+
 /** replaces `file-service://` pointers with data uris containing the image */
 /** avoid errors in parsing multimodal parts we don't understand */
 async function replaceImageAssets(conversation: ApiConversation): Promise<void> {
@@ -469,6 +574,15 @@ export async function fetchProjects(): Promise<ApiProjectInfo[]> {
     return items.map(gizmo => (gizmo.gizmo.gizmo))
 }
 
+export async function fetchProjectDetail(project: string): Promise<ApiProjectDetail> {
+    const url = projectApi(project)
+    const detail = await fetchApi<ApiProjectDetail>(url)
+    return {
+        ...detail,
+        files: detail.files ?? [],
+    }
+}
+
 async function fetchConversations(offset = 0, limit = 20, project: string | null = null): Promise<ApiConversations> {
     if (project) {
         return fetchProjectConversations(project, offset, limit)
@@ -616,8 +730,22 @@ export interface ConversationResult {
     createTime: number
     updateTime: number
     conversationNodes: ConversationNode[]
+    /** Custom instructions, memory and system messages that were active in the conversation */
+    context: ConversationContext
     projectName?: string
     projectId?: string
+    /** id of the custom GPT or project, see `gizmo_id` */
+    gizmoId?: string
+}
+
+export interface ConversationContext {
+    /** custom instructions: what ChatGPT should know about the user */
+    userProfile?: string
+    /** custom instructions: how ChatGPT should respond */
+    userInstructions?: string
+    /** model memory (`model_set_context`) */
+    modelMemory?: string
+    systemMessages: string[]
 }
 
 const ModelMapping: { [key in ModelSlug]: string } & { [key: string]: string } = {
@@ -632,7 +760,17 @@ const ModelMapping: { [key in ModelSlug]: string } & { [key: string]: string } =
     'text-davinci-002': 'GPT-3.5',
 }
 
-export function processConversation(conversation: ApiConversationWithId): ConversationResult {
+export interface ProcessConversationOptions {
+    /**
+     * Keep every branch of the conversation instead of only the
+     * path to `current_node`. Nodes are returned in depth-first order
+     * and the alternatives are marked with `variant`.
+     */
+    fullTree?: boolean
+}
+
+export function processConversation(conversation: ApiConversationWithId, options: ProcessConversationOptions = {}): ConversationResult {
+    const { fullTree = false } = options
     const title = conversation.title || 'ChatGPT Conversation'
     const createTime = conversation.create_time
     const updateTime = conversation.update_time
@@ -642,8 +780,10 @@ export function processConversation(conversation: ApiConversationWithId): Conver
         || Object.values(conversation.mapping).find(node => !node.children || node.children.length === 0)?.id
     if (!startNodeId) throw new Error('Failed to find start node.')
 
-    const conversationNodes = extractConversationResult(conversation.mapping, startNodeId)
-    const mergedConversationNodes = mergeContinuationNodes(conversationNodes)
+    const conversationNodes = fullTree
+        ? extractConversationTree(conversation.mapping, startNodeId)
+        : extractConversationResult(conversation.mapping, startNodeId)
+    const mergedConversationNodes = mergeContinuationNodes(conversationNodes, fullTree)
 
     return {
         id: conversation.id,
@@ -653,9 +793,57 @@ export function processConversation(conversation: ApiConversationWithId): Conver
         createTime,
         updateTime,
         conversationNodes: mergedConversationNodes,
+        context: extractConversationContext(conversation.mapping, startNodeId, fullTree),
+        gizmoId: conversation.gizmo_id ?? undefined,
     }
 }
 
+/**
+ * Collect the context nodes skipped by `extractConversationResult`.
+ * Only the path to the start node is considered unless in full tree mode.
+ */
+function extractConversationContext(conversationMapping: Record<string, ConversationNode>, startNodeId: string, fullTree: boolean): ConversationContext {
+    const nodes: ConversationNode[] = []
+    if (fullTree) {
+        nodes.push(...Object.values(conversationMapping))
+    }
+    else {
+        const visited = new Set<string>()
+        let currentNodeId: string | undefined = startNodeId
+        while (currentNodeId && !visited.has(currentNodeId)) {
+            visited.add(currentNodeId)
+            const node: ConversationNode | undefined = conversationMapping[currentNodeId]
+            if (!node) break
+            nodes.unshift(node)
+            currentNodeId = node.parent
+        }
+    }
+
+    const context: ConversationContext = { systemMessages: [] }
+    nodes.forEach(({ message }) => {
+        if (!message) return
+
+        const { content } = message
+        if (content.content_type === 'user_editable_context') {
+            context.userProfile = content.user_profile || context.userProfile
+            context.userInstructions = content.user_instructions || context.userInstructions
+        }
+        else if (content.content_type === 'model_editable_context') {
+            context.modelMemory = content.model_set_context || context.modelMemory
+        }
+        else if (message.author.role === 'system' && content.content_type === 'text') {
+            const text = content.parts.join('\n').trim()
+            if (text) context.systemMessages.push(text)
+        }
+    })
+
+    return context
+}
+
+export function hasConversationContext(context: ConversationContext): boolean {
+    return !!(context.userProfile || context.userInstructions || context.modelMemory || context.systemMessages.length > 0)
+}
+
 function extractModel(conversationMapping: Record<string, ConversationNode>) {
     let model = ''
     const modelSlug = Object.values(conversationMapping).find(node => node.message?.metadata?.model_slug)?.message?.metadata?.model_slug || ''
@@ -692,14 +880,7 @@ function extractConversationResult(conversationMapping: Record<string, Conversat
             break // Stop at root message.
         }
 
-        if (
-            // Skip system messages
-            node.message?.author.role !== 'system'
-            // Skip model memory context
-            && node.message?.content.content_type !== 'model_editable_context'
-            // Skip user custom instructions
-            && node.message?.content.content_type !== 'user_editable_context'
-        ) {
+        if (isVisibleNode(node)) {
             result.unshift(node)
         }
 
@@ -709,16 +890,96 @@ function extractConversationResult(conversationMapping: Record<string, Conversat
     return result
 }
 
+export function isVisibleNode(node: ConversationNode): boolean {
+    return (
+        // Skip system messages
+        node.message?.author.role !== 'system'
+        // Skip model memory context
+        && node.message?.content.content_type !== 'model_editable_context'
+        // Skip user custom instructions
+        && node.message?.content.content_type !== 'user_editable_context'
+    )
+}
+
+/**
+ * Walk the whole node graph in depth-first order, so that every
+ * edited prompt and regenerated response is kept. Siblings are
+ * annotated with `variant` to let exporters label them.
+ */
+function extractConversationTree(conversationMapping: Record<string, ConversationNode>, currentNodeId: string): ConversationNode[] {
+    const currentPath = new Set<string>()
+    let pathNodeId: string | undefined = currentNodeId
+    while (pathNodeId && !currentPath.has(pathNodeId)) {
+        currentPath.add(pathNodeId)
+        pathNodeId = conversationMapping[pathNodeId]?.parent
+    }
+
+    const roots = Object.values(conversationMapping)
+        .filter(node => !node.parent || !conversationMapping[node.parent])
+
+    const result: ConversationNode[] = []
+    const visited = new Set<string>()
+    // Use an explicit stack as long conversations can easily exceed the call stack
+    const stack: Array<{ node: ConversationNode; branch: string }> = roots
+        .map(node => ({ node, branch: '' }))
+        .reverse()
+
+    while (stack.length > 0) {
+        const { node, branch } = stack.pop()!
+        if (visited.has(node.id)) continue
+        visited.add(node.id)
+
+        // The root node is a placeholder without content
+        if (node.parent !== undefined && isVisibleNode(node)) {
+            result.push(node)
+        }
+
+        const children = (node.children ?? [])
+            .map(childId => conversationMapping[childId])
+            .filter(Boolean)
+
+        const next = children.map((child, index) => {
+            if (children.length === 1) return { node: child, branch }
+
+            const childBranch = branch ? `${branch}.${index + 1}` : `${index + 1}`
+            const variant: ConversationNodeVariant = {
+                index: index + 1,
+                total: children.length,
+                branch: childBranch,
+                label: `${getVariantName(child)} ${index + 1} of ${children.length}`,
+                isCurrent: currentPath.has(child.id),
+            }
+            return { node: { ...child, variant }, branch: childBranch }
+        })
+        stack.push(...next.reverse())
+    }
+
+    return result
+}
+
+function getVariantName(node: ConversationNode): string {
+    switch (node.message?.author.role) {
+        case 'user':
+            return 'Prompt'
+        case 'assistant':
+            return 'Response'
+        default:
+            return 'Variant'
+    }
+}
+
 /**
  * Merge continuation nodes generated by official continuation
  * to improve the readability of the conversation. (#146)
  */
-function mergeContinuationNodes(nodes: ConversationNode[]): ConversationNode[] {
+function mergeContinuationNodes(nodes: ConversationNode[], fullTree = false): ConversationNode[] {
     const result: ConversationNode[] = []
     for (const node of nodes) {
         const prevNode = result[result.length - 1]
         if (
-            prevNode?.message?.author.role === 'assistant' && node.message?.author.role === 'assistant'
+            // In full tree mode, adjacent nodes may be siblings instead of parent and child
+            (!fullTree || node.parent === prevNode?.id)
+            && prevNode?.message?.author.role === 'assistant' && node.message?.author.role === 'assistant'
          && prevNode.message.recipient === 'all' && node.message.recipient === 'all'
          && prevNode.message.content.content_type === 'text' && node.message.content.content_type === 'text'
         ) {
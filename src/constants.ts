@@ -18,6 +18,33 @@ export const KEY_TIMESTAMP_HTML = 'exporter:timestamp_html'
 export const KEY_META_ENABLED = 'exporter:enable_meta'
 export const KEY_META_LIST = 'exporter:meta_list'
 export const KEY_EXPORT_ALL_LIMIT = 'exporter:export_all_limit'
+export const KEY_EXPORT_FULL_TREE = 'exporter:export_full_tree'
+export const KEY_EXPORT_LEDGER = 'exporter:export_ledger'
+export const KEY_EXPORT_CONTEXT = 'exporter:export_context'
+export const KEY_EXPORT_ATTACHMENTS = 'exporter:export_attachments'
+export const KEY_EXPORT_AUDIO = 'exporter:export_audio'
+export const KEY_EXPORT_TOOL_CALLS = 'exporter:export_tool_calls'
+export const KEY_EXPORT_OFFLINE_HTML = 'exporter:export_offline_html'
+export const KEY_TEMPLATE_MARKDOWN = 'exporter:template_markdown'
+export const KEY_TEMPLATE_HTML = 'exporter:template_html'
+export const KEY_USER_LABEL = 'exporter:user_label'
+export const KEY_ASSISTANT_LABEL = 'exporter:assistant_label'
+
+// Screenshot settings
+export const KEY_SCREENSHOT_SOURCE = 'exporter:screenshot_source'
+export const KEY_SCREENSHOT_WIDTH = 'exporter:screenshot_width'
+export const KEY_SCREENSHOT_THEME = 'exporter:screenshot_theme'
+export const KEY_SCREENSHOT_PADDING = 'exporter:screenshot_padding'
+export const KEY_SCREENSHOT_SCALE = 'exporter:screenshot_scale'
+export const KEY_SCREENSHOT_FORMAT = 'exporter:screenshot_format'
+export const KEY_SCREENSHOT_SPLIT = 'exporter:screenshot_split'
+export const KEY_SCREENSHOT_SEGMENT_HEIGHT = 'exporter:screenshot_segment_height'
+
+// Fine-tuning settings
+export const KEY_FINETUNE_CONTEXT = 'exporter:finetune_context'
+export const KEY_FINETUNE_TOOLS = 'exporter:finetune_tools'
+export const KEY_FINETUNE_MAX_TOKENS = 'exporter:finetune_max_tokens'
+export const KEY_FINETUNE_VALIDATION = 'exporter:finetune_validation'
 
 export const KEY_OAI_LOCALE = 'oai/apps/locale'
 export const KEY_OAI_HISTORY_DISABLED = 'oai/apps/historyDisabled'
@@ -27,4 +54,5 @@ export const KEY_IMAGE_HANDLING_STRATEGY = 'exporter:image_handling_strategy'
 export const KEY_IMAGE_CUSTOM_MARKER = 'exporter:image_custom_marker'
 export const KEY_IMAGE_QUALITY = 'exporter:image_quality'
 export const KEY_IMAGE_MAX_SIZE = 'exporter:image_max_size'
+export const KEY_IMAGE_OUTPUT_FORMAT = 'exporter:image_output_format'
 export const KEY_IMAGE_INCLUDE_METADATA = 'exporter:image_include_metadata'
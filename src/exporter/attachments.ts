@@ -0,0 +1,203 @@
+import sanitize from 'sanitize-filename'
+import { fetchFile, fetchSandboxFile } from '../api'
+import { getAudioClip } from './audio'
+import type { ExportFile, ExportMetadata } from './image-types'
+import type { ConversationResult } from '../api'
+
+export interface AttachmentReference {
+    messageId: string
+    source: 'upload' | 'sandbox' | 'audio'
+    /** file id for uploads, `sandbox:` path for code interpreter files, asset pointer for audio */
+    reference: string
+    name: string
+    mimeType?: string
+    size?: number
+}
+
+export interface ExportedAttachment extends AttachmentReference {
+    /** Relative path in the archive, only set when the download succeeded */
+    path?: string
+    data?: Blob
+    error?: string
+}
+
+export interface AttachmentOptions {
+    /** include uploads and code interpreter files, defaults to true */
+    files?: boolean
+    /** include voice mode audio clips */
+    audio?: boolean
+}
+
+const ATTACHMENT_DIR = 'attachments'
+const AUDIO_DIR = 'audio'
+
+// sandbox:/mnt/data/result.csv
+const SandboxLinkRegex = /sandbox:\/mnt\/data\/[^\s)"'\]>]+/g
+
+/**
+ * Collect every non-image file referenced by the conversation:
+ * uploads listed in `metadata.attachments`, files produced
+ * by code interpreter that are linked with `sandbox:` urls,
+ * and optionally the audio clips of voice mode.
+ */
+export function extractAttachments(conversation: ConversationResult, options: AttachmentOptions = {}): AttachmentReference[] {
+    const references: AttachmentReference[] = []
+    const seen = new Set<string>()
+    const add = (reference: AttachmentReference) => {
+        const key = `${reference.messageId}:${reference.reference}`
+        if (seen.has(key)) return
+        seen.add(key)
+        references.push(reference)
+    }
+
+    const includeFiles = options.files ?? true
+
+    conversation.conversationNodes.forEach(({ message }) => {
+        if (!message) return
+
+        if (includeFiles) {
+            message.metadata?.attachments?.forEach((attachment) => {
+                const mimeType = attachment.mime_type ?? attachment.mimeType
+                // Images are handled by the image handler
+                if (mimeType?.startsWith('image/')) return
+
+                add({
+                    messageId: message.id,
+                    source: 'upload',
+                    reference: attachment.id,
+                    name: attachment.name,
+                    mimeType,
+                    size: attachment.size,
+                })
+            })
+        }
+
+        if (includeFiles && message.content.content_type === 'text') {
+            const text = message.content.parts.join('\n')
+            const links = text.match(SandboxLinkRegex) ?? []
+            links.forEach((link) => {
+                add({
+                    messageId: message.id,
+                    source: 'sandbox',
+                    reference: link,
+                    name: decodeURIComponent(link.split('/').pop() || link),
+                })
+            })
+        }
+
+        if (options.audio && message.content.content_type === 'multimodal_text') {
+            message.content.parts.forEach((part) => {
+                const clip = getAudioClip(part)
+                if (!clip) return
+
+                const prefix = message.author.role === 'user' ? 'user' : 'chatgpt'
+                const audioIndex = references.filter(r => r.source === 'audio').length + 1
+                add({
+                    messageId: message.id,
+                    source: 'audio',
+                    reference: clip.pointer,
+                    name: `${prefix}-audio-${String(audioIndex).padStart(3, '0')}.${clip.format}`,
+                    mimeType: `audio/${clip.format}`,
+                    size: clip.size,
+                })
+            })
+        }
+    })
+
+    return references
+}
+
+/**
+ * Download all attachments of the conversation. Downloads run one by one
+ * to avoid hitting the rate limit; failures are recorded instead of thrown.
+ */
+export async function downloadAttachments(conversation: ConversationResult, options: AttachmentOptions = {}): Promise<ExportedAttachment[]> {
+    const references = extractAttachments(conversation, options)
+    const usedNames = new Map<string, number>()
+    const result: ExportedAttachment[] = []
+
+    for (const reference of references) {
+        try {
+            const file = reference.source === 'sandbox'
+                ? await fetchSandboxFile(conversation.id, reference.messageId, reference.reference)
+                : await fetchFile(reference.reference, reference.name)
+            if (!file) {
+                result.push({ ...reference, error: 'Download failed' })
+                continue
+            }
+
+            const fileName = getUniqueFileName(sanitize(reference.name || file.fileName) || 'attachment', usedNames)
+            result.push({
+                ...reference,
+                mimeType: reference.mimeType ?? file.mimeType,
+                size: reference.size ?? file.blob.size,
+                path: `${reference.source === 'audio' ? AUDIO_DIR : ATTACHMENT_DIR}/${fileName}`,
+                data: file.blob,
+            })
+        }
+        catch (error) {
+            console.error(`Failed to download attachment ${reference.name}:`, error)
+            result.push({ ...reference, error: error instanceof Error ? error.message : String(error) })
+        }
+    }
+
+    return result
+}
+
+function getUniqueFileName(fileName: string, usedNames: Map<string, number>): string {
+    const key = fileName.toLowerCase()
+    const count = usedNames.get(key) ?? 0
+    usedNames.set(key, count + 1)
+    if (count === 0) return fileName
+
+    const dotIndex = fileName.lastIndexOf('.')
+    return dotIndex > 0
+        ? `${fileName.slice(0, dotIndex)} (${count})${fileName.slice(dotIndex)}`
+        : `${fileName} (${count})`
+}
+
+/**
+ * Uploaded attachments of a message, rendered after the message content
+ */
+export function getMessageUploads(attachments: ExportedAttachment[], messageId: string): ExportedAttachment[] {
+    return attachments.filter(a => a.messageId === messageId && a.source === 'upload')
+}
+
+/**
+ * Find the downloaded file of a voice mode audio clip
+ */
+export function getAudioAttachment(attachments: ExportedAttachment[], pointer: string): ExportedAttachment | undefined {
+    return attachments.find(a => a.source === 'audio' && a.reference === pointer)
+}
+
+/**
+ * Point `sandbox:` links of a message to the downloaded files
+ */
+export function replaceSandboxLinks(content: string, attachments: ExportedAttachment[], messageId: string): string {
+    return attachments
+        .filter(a => a.messageId === messageId && a.source === 'sandbox' && a.path)
+        .reduce((acc, attachment) => acc.replaceAll(attachment.reference, encodeURI(attachment.path!)), content)
+}
+
+export function getAttachmentFiles(attachments: ExportedAttachment[]): ExportFile[] {
+    return attachments
+        .filter(a => a.path && a.data)
+        .map(a => ({
+            path: a.path!,
+            data: a.data!,
+            mimeType: a.mimeType,
+        }))
+}
+
+export function getAttachmentMetadata(attachments: ExportedAttachment[]): NonNullable<ExportMetadata['attachments']> {
+    return attachments.map(a => ({
+        id: a.reference,
+        fileName: a.name,
+        path: a.path,
+        mimeType: a.mimeType,
+        size: a.size,
+        source: a.source,
+        messageId: a.messageId,
+        error: a.error,
+    }))
+}
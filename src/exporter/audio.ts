@@ -0,0 +1,78 @@
+import type { ConversationNodeMessage, MultiModalAudioVideoAssetPointer, MultiModalInputAudio } from '../api'
+
+type MultiModalPart = Extract<ConversationNodeMessage['content'], { content_type: 'multimodal_text' }>['parts'][number]
+
+export interface AudioClip {
+    pointer: string
+    format: string
+    size?: number
+    /** seconds since the start of the voice session */
+    start?: number
+    end?: number
+}
+
+/**
+ * Get the downloadable audio clip of a voice mode part, if any
+ */
+export function getAudioClip(part: MultiModalPart): AudioClip | null {
+    if (typeof part !== 'object' || part === null) return null
+
+    if (part.content_type === 'audio_asset_pointer') {
+        const audio = part as MultiModalInputAudio
+        const pointer = audio.asset_pointer ?? audio.audio_asset_pointer
+        if (!pointer) return null
+        return {
+            pointer,
+            format: audio.format || 'wav',
+            size: audio.size_bytes,
+            start: audio.metadata?.start_timestamp ?? undefined,
+            end: audio.metadata?.end_timestamp ?? undefined,
+        }
+    }
+
+    if (part.content_type === 'real_time_user_audio_video_asset_pointer') {
+        const audio = (part as MultiModalAudioVideoAssetPointer).audio_asset_pointer
+        if (!audio?.asset_pointer) return null
+        return {
+            pointer: audio.asset_pointer,
+            format: audio.format || 'wav',
+            size: audio.size_bytes,
+            start: audio.metadata?.start ?? undefined,
+            end: audio.metadata?.end ?? undefined,
+        }
+    }
+
+    return null
+}
+
+/**
+ * The transcripts and the audio clips are siblings in the same parts list,
+ * the n-th transcript of a message belongs to its n-th clip.
+ */
+export function getAudioSegment(parts: MultiModalPart[], transcriptIndex: number): Pick<AudioClip, 'start' | 'end'> | null {
+    const position = parts
+        .slice(0, transcriptIndex)
+        .filter(part => typeof part === 'object' && part !== null && part.content_type === 'audio_transcription')
+        .length
+    const clip = parts.map(getAudioClip).filter((clip): clip is AudioClip => clip !== null)[position]
+    if (!clip || clip.start === undefined) return null
+    return { start: clip.start, end: clip.end }
+}
+
+/**
+ * Format a segment as `01:02.5–01:07.0`
+ */
+export function formatAudioSegment({ start, end }: Pick<AudioClip, 'start' | 'end'>): string {
+    if (start === undefined) return ''
+    return end !== undefined
+        ? `${formatSeconds(start)}–${formatSeconds(end)}`
+        : formatSeconds(start)
+}
+
+function formatSeconds(seconds: number): string {
+    // Round first, so 59.96 carries over to the next minute
+    const total = Math.round(seconds * 10) / 10
+    const minutes = Math.floor(total / 60)
+    const rest = (total - minutes * 60).toFixed(1).padStart(4, '0')
+    return `${String(minutes).padStart(2, '0')}:${rest}`
+}
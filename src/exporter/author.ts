@@ -0,0 +1,73 @@
+import { fetchProjectDetail } from '../api'
+import { KEY_ASSISTANT_LABEL, KEY_USER_LABEL } from '../constants'
+import { getUserName } from '../page'
+import { ScriptStorage } from '../utils/storage'
+import type { ConversationNodeMessage, ConversationResult } from '../api'
+
+export interface AuthorLabels {
+    user: string
+    assistant: string
+}
+
+export const defaultUserLabel = 'You'
+export const defaultAssistantLabel = 'ChatGPT'
+
+const gizmoNames = new Map<string, Promise<string>>()
+
+/**
+ * Resolve the user and assistant labels of a conversation from the settings.
+ * Labels accept `{user_name}`, `{model}` and `{gizmo_name}` placeholders,
+ * and fall back to the default when they end up empty.
+ */
+export async function getAuthorLabels(conversation: ConversationResult): Promise<AuthorLabels> {
+    const userLabel = ScriptStorage.get<string>(KEY_USER_LABEL) || defaultUserLabel
+    const assistantLabel = ScriptStorage.get<string>(KEY_ASSISTANT_LABEL) || defaultAssistantLabel
+
+    const needsGizmoName = `${userLabel}${assistantLabel}`.includes('{gizmo_name}')
+    const gizmoName = needsGizmoName && conversation.gizmoId
+        ? await getGizmoName(conversation.gizmoId)
+        : ''
+
+    const fill = (label: string, fallback: string) => label
+        .replaceAll('{user_name}', getUserName())
+        .replaceAll('{model}', conversation.model || conversation.modelSlug)
+        .replaceAll('{gizmo_name}', gizmoName)
+        // `ChatGPT ({model})` without a model
+        .replace(/\s*\(\s*\)/g, '')
+        .trim() || fallback
+
+    return {
+        user: fill(userLabel, defaultUserLabel),
+        assistant: fill(assistantLabel, defaultAssistantLabel),
+    }
+}
+
+/**
+ * Name of a custom GPT or project, cached for the page session
+ */
+function getGizmoName(gizmoId: string): Promise<string> {
+    let name = gizmoNames.get(gizmoId)
+    if (!name) {
+        name = fetchProjectDetail(gizmoId)
+            .then(detail => detail.gizmo.display.name)
+            .catch((error) => {
+                console.warn(`Failed to fetch the name of ${gizmoId}:`, error)
+                return ''
+            })
+        gizmoNames.set(gizmoId, name)
+    }
+    return name
+}
+
+export function transformAuthor(author: ConversationNodeMessage['author'], labels: AuthorLabels): string {
+    switch (author.role) {
+        case 'assistant':
+            return labels.assistant
+        case 'user':
+            return labels.user
+        case 'tool':
+            return `Plugin${author.name ? ` (${author.name})` : ''}`
+        default:
+            return author.role
+    }
+}
@@ -0,0 +1,321 @@
+import JSZip from 'jszip'
+import { fetchConversation, getCurrentChatId, processConversation } from '../api'
+import { baseUrl } from '../constants'
+import i18n from '../i18n'
+import { checkIfConversationStarted } from '../page'
+import { downloadFile, getFileNameWithFormat } from '../utils/download'
+import { fromMarkdown } from '../utils/markdown'
+import { applyMessageSelection } from '../utils/message-selection'
+import { unixTimestampToISOString } from '../utils/utils'
+import type { ConversationResult } from '../api'
+import type { Code, Content, Heading, Parent } from 'mdast'
+
+interface CodeBlock {
+    /** file path inferred from the conversation, or a numbered snippet name */
+    path: string
+    language: string
+    content: string
+    messageId: string
+    /** 1-based position of the message in the conversation */
+    messageIndex: number
+    createTime?: number
+}
+
+export interface CodeFileEntry {
+    /** path inside the archive */
+    path: string
+    language: string
+    /** 1-based, the highest version is stored under the plain path */
+    version: number
+    latest: boolean
+    message_id: string
+    message_index: number
+    create_time?: string
+}
+
+// src/app.ts, Dockerfile.dev, .env.example
+const FilePathRegex = /^(?:[\w@.-]+\/)*[\w@-]?[\w@.-]*\.[a-z\d]{1,10}$|^(?:[\w@.-]+\/)*(?:Dockerfile|Makefile|Procfile|Gemfile)$/i
+// The same, inside prose: "Save it as src/app.ts:" or "### src/app.ts"
+const FilePathInTextRegex = /(?:^|[\s(:"'])((?:[\w@.-]+\/)*[\w@-][\w@.-]*\.[a-z\d]{1,10}|(?:[\w@.-]+\/)*(?:Dockerfile|Makefile))(?=$|[\s),:;"'])/gi
+// `// file: src/app.ts`, `# app.py`, `<!-- index.html -->`, `/* style.css */`
+const FileCommentRegex = /^\s*(?:\/\/|#|--|;|\/\*|<!--)\s*(?:file(?:name)?\s*:\s*)?(\S+?)\s*(?:\*\/|-->)?\s*$/i
+
+// Extensions of the fenced code languages, for blocks without a filename
+const LanguageExtensions: Record<string, string> = {
+    'bash': 'sh',
+    'c': 'c',
+    'cpp': 'cpp',
+    'c++': 'cpp',
+    'csharp': 'cs',
+    'cs': 'cs',
+    'css': 'css',
+    'dart': 'dart',
+    'go': 'go',
+    'html': 'html',
+    'java': 'java',
+    'javascript': 'js',
+    'js': 'js',
+    'json': 'json',
+    'jsx': 'jsx',
+    'kotlin': 'kt',
+    'lua': 'lua',
+    'markdown': 'md',
+    'md': 'md',
+    'perl': 'pl',
+    'php': 'php',
+    'powershell': 'ps1',
+    'python': 'py',
+    'py': 'py',
+    'r': 'r',
+    'ruby': 'rb',
+    'rust': 'rs',
+    'scala': 'scala',
+    'scss': 'scss',
+    'sh': 'sh',
+    'shell': 'sh',
+    'sql': 'sql',
+    'swift': 'swift',
+    'toml': 'toml',
+    'ts': 'ts',
+    'tsx': 'tsx',
+    'typescript': 'ts',
+    'vue': 'vue',
+    'xml': 'xml',
+    'yaml': 'yml',
+    'yml': 'yml',
+    'zsh': 'sh',
+}
+
+// Extensions a filename in prose must have, so "example.com" or "v1.2" name no block
+const CodeFileExtensions = new Set([
+    ...Object.values(LanguageExtensions),
+    'cc',
+    'cfg',
+    'cjs',
+    'conf',
+    'env',
+    'gradle',
+    'h',
+    'hpp',
+    'htm',
+    'ini',
+    'less',
+    'mjs',
+    'sass',
+    'svelte',
+    'txt',
+    'yaml',
+])
+
+export async function exportToCodeFiles(fileNameFormat: string) {
+    if (!checkIfConversationStarted()) {
+        alert(i18n.t('Please start a conversation first'))
+        return false
+    }
+
+    const chatId = await getCurrentChatId()
+    const rawConversation = applyMessageSelection(await fetchConversation(chatId, false))
+    const conversation = processConversation(rawConversation)
+
+    const blocks = extractCodeBlocks(conversation)
+    if (blocks.length === 0) {
+        alert(i18n.t('No code blocks found'))
+        return false
+    }
+
+    const zip = new JSZip()
+    const files = addCodeFiles(zip, blocks)
+    zip.file('manifest.json', JSON.stringify({
+        conversation: {
+            id: conversation.id,
+            title: conversation.title,
+            source: `${baseUrl}/c/${conversation.id}`,
+        },
+        files,
+    }, null, 2))
+
+    const fileName = getFileNameWithFormat(fileNameFormat, 'zip', {
+        title: conversation.title,
+        chatId,
+        createTime: conversation.createTime,
+        updateTime: conversation.updateTime,
+    })
+    const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })
+    downloadFile(fileName, 'application/zip', blob)
+
+    return true
+}
+
+/**
+ * Collect the fenced code blocks written by the assistant, in order
+ */
+export function extractCodeBlocks(conversation: ConversationResult): CodeBlock[] {
+    const blocks: CodeBlock[] = []
+    let snippetCount = 0
+
+    conversation.conversationNodes.forEach(({ message }, index) => {
+        if (!message || message.author.role !== 'assistant' || message.recipient !== 'all') return
+        if (message.content.content_type !== 'text') return
+
+        const root = fromMarkdown(message.content.parts.join('\n'))
+        let lastHeading: Heading | null = null
+
+        const visit = (parent: Parent) => {
+            parent.children.forEach((node, i) => {
+                if (node.type === 'heading') lastHeading = node
+                if (node.type !== 'code') {
+                    if ('children' in node) visit(node as Parent)
+                    return
+                }
+                if (!node.value.trim()) return
+
+                const language = node.lang?.toLowerCase() ?? ''
+                const previous = i > 0 ? parent.children[i - 1] : null
+                const path = inferFilePath(node, previous, lastHeading)
+                    ?? `snippets/snippet-${String(++snippetCount).padStart(3, '0')}.${LanguageExtensions[language] ?? 'txt'}`
+                // A heading only names the first block after it
+                lastHeading = null
+
+                blocks.push({
+                    path,
+                    language,
+                    content: node.value.endsWith('\n') ? node.value : `${node.value}\n`,
+                    messageId: message.id,
+                    messageIndex: index + 1,
+                    createTime: message.create_time,
+                })
+            })
+        }
+        visit(root)
+    })
+
+    return blocks
+}
+
+/**
+ * Look for a filename in the first line comment of the block,
+ * the paragraph or heading right before it, then the last heading
+ */
+function inferFilePath(code: Code, previous: Content | null, lastHeading: Heading | null): string | null {
+    const firstLine = code.value.split('\n', 1)[0]
+    const comment = firstLine.match(FileCommentRegex)?.[1]
+    if (comment && isFilePath(comment)) return normalizePath(comment)
+
+    // `meta` is the rest of the info string, eg. ```ts src/app.ts
+    if (code.meta && isFilePath(code.meta.trim())) return normalizePath(code.meta.trim())
+
+    for (const node of [previous, lastHeading]) {
+        if (!node || (node.type !== 'paragraph' && node.type !== 'heading')) continue
+
+        const inlineCode = collectInlineCode(node).find(isFilePath)
+        if (inlineCode) return normalizePath(inlineCode)
+
+        const textPath = findFilePathInText(collectText(node))
+        if (textPath) return normalizePath(textPath)
+    }
+
+    return null
+}
+
+function isFilePath(value: string): boolean {
+    // Skip version numbers like `1.2.3`
+    return FilePathRegex.test(value) && /[a-z]/i.test(value.split('.').pop() ?? '')
+}
+
+/**
+ * A filename in prose is only trusted when it has a code extension and
+ * is the whole text, is in a folder or is followed by a colon, eg.
+ * "### app.py", "Update src/app.py" or "Save this as app.py:",
+ * but not "This uses Node.js".
+ */
+function findFilePathInText(text: string): string | null {
+    const wholeText = text.trim().replace(/:$/, '')
+    for (const match of text.matchAll(FilePathInTextRegex)) {
+        const path = match[1]
+        if (!isFilePath(path)) continue
+
+        const fileName = path.split('/').pop() ?? ''
+        if (/^(?:Dockerfile|Makefile)$/i.test(fileName)) return path
+
+        const extension = fileName.split('.').pop()?.toLowerCase() ?? ''
+        if (!CodeFileExtensions.has(extension)) continue
+
+        const end = (match.index ?? 0) + match[0].length
+        if (path === wholeText || path.includes('/') || text[end] === ':') return path
+    }
+    return null
+}
+
+function collectInlineCode(node: Content): string[] {
+    if (node.type === 'inlineCode') return [node.value.trim()]
+    if ('children' in node) return (node as Parent).children.flatMap(collectInlineCode)
+    return []
+}
+
+function collectText(node: Content): string {
+    if (node.type === 'text' || node.type === 'inlineCode') return node.value
+    if ('children' in node) return (node as Parent).children.map(collectText).join('')
+    return ''
+}
+
+/**
+ * Keep paths inside the archive
+ */
+function normalizePath(path: string): string {
+    return path
+        .replace(/\\/g, '/')
+        .split('/')
+        .filter(segment => segment && segment !== '.' && segment !== '..')
+        .join('/')
+}
+
+/**
+ * Add the blocks to the `files/` folder of the archive, so they cannot
+ * replace the manifest. The latest version of a file keeps its path,
+ * earlier versions are kept as `name.v1.ext`, `name.v2.ext`... or the next
+ * free number when the conversation has a file of that name too.
+ * Blocks that repeat the previous version unchanged are skipped.
+ */
+function addCodeFiles(zip: JSZip, blocks: CodeBlock[]): CodeFileEntry[] {
+    const versions = new Map<string, CodeBlock[]>()
+    blocks.forEach((block) => {
+        const list = versions.get(block.path) ?? []
+        if (list[list.length - 1]?.content !== block.content) list.push(block)
+        versions.set(block.path, list)
+    })
+
+    const entries: CodeFileEntry[] = []
+    const usedPaths = new Set(versions.keys())
+    versions.forEach((list, path) => {
+        list.forEach((block, index) => {
+            const latest = index === list.length - 1
+            let filePath = path
+            if (!latest) {
+                let suffix = index + 1
+                while (usedPaths.has(getVersionedPath(path, suffix))) suffix++
+                filePath = getVersionedPath(path, suffix)
+                usedPaths.add(filePath)
+            }
+            zip.file(`files/${filePath}`, block.content)
+            entries.push({
+                path: `files/${filePath}`,
+                language: block.language,
+                version: index + 1,
+                latest,
+                message_id: block.messageId,
+                message_index: block.messageIndex,
+                create_time: block.createTime ? unixTimestampToISOString(block.createTime) : undefined,
+            })
+        })
+    })
+
+    return entries.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+function getVersionedPath(path: string, version: number): string {
+    const slash = path.lastIndexOf('/')
+    const dot = path.lastIndexOf('.')
+    // Dotfiles and names without extension get the suffix at the end
+    if (dot <= slash + 1) return `${path}.v${version}`
+    return `${path.slice(0, dot)}.v${version}${path.slice(dot)}`
+}
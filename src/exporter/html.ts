@@ -1,18 +1,31 @@
 import JSZip from 'jszip'
-import { fetchConversation, getCurrentChatId, processConversation } from '../api'
-import { KEY_IMAGE_CUSTOM_MARKER, KEY_IMAGE_HANDLING_STRATEGY, KEY_IMAGE_INCLUDE_METADATA, KEY_IMAGE_MAX_SIZE, KEY_IMAGE_QUALITY, KEY_TIMESTAMP_24H, KEY_TIMESTAMP_ENABLED, KEY_TIMESTAMP_HTML, baseUrl } from '../constants'
+import { fetchConversation, getCurrentChatId, hasConversationContext, processConversation } from '../api'
+import archiveIndexHtml from '../archive-index.html?raw'
+import { KEY_EXPORT_ATTACHMENTS, KEY_EXPORT_AUDIO, KEY_EXPORT_CONTEXT, KEY_EXPORT_FULL_TREE, KEY_EXPORT_OFFLINE_HTML, KEY_EXPORT_TOOL_CALLS, KEY_IMAGE_HANDLING_STRATEGY, KEY_TEMPLATE_HTML, KEY_TIMESTAMP_24H, KEY_TIMESTAMP_ENABLED, KEY_TIMESTAMP_HTML, baseUrl } from '../constants'
 import i18n from '../i18n'
 import { checkIfConversationStarted, getUserAvatar } from '../page'
 import templateHtml from '../template.html?raw'
 import { downloadFile, getFileNameWithFormat } from '../utils/download'
 import { fromMarkdown, toHtml } from '../utils/markdown'
+import { applyMessageSelection } from '../utils/message-selection'
 import { ScriptStorage } from '../utils/storage'
+import { renderTemplate } from '../utils/template'
 import { standardizeLineBreaks } from '../utils/text'
 import { dateStr, getColorScheme, timestamp, unixTimestampToISOString } from '../utils/utils'
-import { getImageHandler, initializeImageHandler } from './image-handler'
-import type { ExportFile, ExportMetadata, ImageContext, ProcessedImage } from './image-types'
-import type { ApiConversationWithId, ConversationNodeMessage, ConversationResult } from '../api'
+import { downloadAttachments, getAttachmentFiles, getAttachmentMetadata, getAudioAttachment, getMessageUploads, replaceSandboxLinks } from './attachments'
+import { formatAudioSegment, getAudioClip, getAudioSegment } from './audio'
+import { getAuthorLabels, transformAuthor } from './author'
+import { getImageHandler, getImageSettings, initializeImageHandler } from './image-handler'
+import { fetchOfflineAssets, inlineOfflineAssets, localizeAssetUrls } from './offline-assets'
+import { addProjectContextFiles } from './project'
+import { formatMessageTime, getConversationTemplateData, getMessageTemplateData, getUsableTemplate, transformAttachments, transformContext } from './template-data'
+import { isExportableToolCall, isExportableToolResult, transformBrowsingCall, transformCode, transformToolCall } from './tool-call'
+import type { ExportedAttachment } from './attachments'
+import type { ExportFile, ExportMetadata, ImageContext, ImageHandlingStrategy, ProcessedImage } from './image-types'
+import type { TemplateFormat } from './template-data'
+import type { ApiConversationWithId, ApiProjectDetail, ConversationNodeMessage, ConversationResult } from '../api'
 import type { ExportMeta } from '../ui/SettingContext'
+import type { TemplateData } from '../utils/template'
 
 export async function exportToHtml(fileNameFormat: string, metaList: ExportMeta[]) {
     if (!checkIfConversationStarted()) {
@@ -22,37 +35,44 @@ export async function exportToHtml(fileNameFormat: string, metaList: ExportMeta[
 
     const userAvatar = await getUserAvatar()
 
-    const chatId = await getCurrentChatId()
-    const rawConversation = await fetchConversation(chatId, true)
-    const conversation = processConversation(rawConversation)
-
     // Initialize image handler with current settings
     const imageHandlingStrategy = ScriptStorage.get<string>(KEY_IMAGE_HANDLING_STRATEGY) || 'embed_base64'
     initializeImageHandler(imageHandlingStrategy as any)
 
-    const { html, exportFiles, imageMetadata } = await conversationToHtml(conversation, userAvatar, metaList)
-
-    // Handle ZIP creation for Option 3
-    if (imageHandlingStrategy === 'separate_files' && exportFiles && exportFiles.length > 0) {
-        // Create ZIP with content and images
-        const { createExportZip } = await import('./zip-packager')
-
-        const metadata = imageMetadata
-        if (metadata) {
-            metadata.conversationTitle = conversation.title
-            metadata.settings = {
-                imageQuality: ScriptStorage.get<number>(KEY_IMAGE_QUALITY) || 85,
-                maxImageSize: ScriptStorage.get<number>(KEY_IMAGE_MAX_SIZE) || 2048,
-                includeImageMetadata: ScriptStorage.get<boolean>(KEY_IMAGE_INCLUDE_METADATA) || true,
-                customMarkerText: ScriptStorage.get<string>(KEY_IMAGE_CUSTOM_MARKER) || '[Image Omitted]',
-            }
+    const chatId = await getCurrentChatId()
+    // Linking keeps the original pointers, no need to download the images
+    const rawConversation = applyMessageSelection(await fetchConversation(chatId, imageHandlingStrategy !== 'link_original'))
+    const fullTree = ScriptStorage.get<boolean>(KEY_EXPORT_FULL_TREE) ?? false
+    const conversation = processConversation(rawConversation, { fullTree })
+
+    const exportAttachments = ScriptStorage.get<boolean>(KEY_EXPORT_ATTACHMENTS) ?? false
+    const exportAudio = ScriptStorage.get<boolean>(KEY_EXPORT_AUDIO) ?? false
+    const attachments = exportAttachments || exportAudio
+        ? await downloadAttachments(conversation, { files: exportAttachments, audio: exportAudio })
+        : []
+    const attachmentFiles = getAttachmentFiles(attachments)
+    const offline = ScriptStorage.get<boolean>(KEY_EXPORT_OFFLINE_HTML) ?? false
+    if (offline && !(await checkOfflineAssets())) return false
+
+    const { html, exportFiles, imageMetadata } = await conversationToHtml(conversation, userAvatar, metaList, attachments, offline)
+
+    // Handle ZIP creation for Option 3, or when attachments were downloaded
+    if ((imageHandlingStrategy === 'separate_files' && exportFiles && exportFiles.length > 0) || attachmentFiles.length > 0) {
+        // Create ZIP with content, images and attachments
+        const { createExportMetadata, createExportZip } = await import('./zip-packager')
+
+        const metadata = imageMetadata ?? createExportMetadata(conversation.title, imageHandlingStrategy as ImageHandlingStrategy)
+        metadata.conversationTitle = conversation.title
+        metadata.settings = getImageSettings()
+        if (attachments.length > 0) {
+            metadata.attachments = getAttachmentMetadata(attachments)
         }
 
         const zipBlob = await createExportZip(
             `${conversation.title}.html`,
             html,
-            exportFiles,
-            metadata!,
+            [...(exportFiles ?? []), ...attachmentFiles],
+            metadata,
             'text/html',
         )
 
@@ -74,7 +94,7 @@ export async function exportToHtml(fileNameFormat: string, metaList: ExportMeta[
     return true
 }
 
-export async function exportAllToHtml(fileNameFormat: string, apiConversations: ApiConversationWithId[], metaList?: ExportMeta[]) {
+export async function exportAllToHtml(fileNameFormat: string, apiConversations: ApiConversationWithId[], metaList?: ExportMeta[], project?: ApiProjectDetail | null) {
     const userAvatar = await getUserAvatar()
 
     // Initialize image handler with current settings
@@ -83,7 +103,12 @@ export async function exportAllToHtml(fileNameFormat: string, apiConversations:
 
     const zip = new JSZip()
     const filenameMap = new Map<string, number>()
-    const conversations = apiConversations.map(x => processConversation(x))
+    const imageFiles: ExportFile[] = []
+    const imageMetadataList: ExportMetadata[] = []
+    const fullTree = ScriptStorage.get<boolean>(KEY_EXPORT_FULL_TREE) ?? false
+    const offline = ScriptStorage.get<boolean>(KEY_EXPORT_OFFLINE_HTML) ?? false
+    if (offline && !(await checkOfflineAssets())) return false
+    const conversations = apiConversations.map(x => processConversation(x, { fullTree }))
 
     for (const conversation of conversations) {
         let fileName = getFileNameWithFormat(fileNameFormat, 'html', {
@@ -100,28 +125,200 @@ export async function exportAllToHtml(fileNameFormat: string, apiConversations:
         else {
             filenameMap.set(fileName, 1)
         }
-        const { html } = await conversationToHtml(conversation, userAvatar, metaList)
+        const { html, exportFiles, imageMetadata } = await conversationToHtml(conversation, userAvatar, metaList, [], offline)
         zip.file(fileName, html)
+        // Documents are at the root, so `images/...` links resolve against the shared folder
+        imageFiles.push(...(exportFiles ?? []))
+        if (imageMetadata) imageMetadataList.push(imageMetadata)
     }
 
-    const blob = await zip.generateAsync({
-        type: 'blob',
-        compression: 'DEFLATE',
-        compressionOptions: {
-            level: 9,
-        },
-    })
+    addProjectContextFiles(zip, project)
+
+    const { ZipPackager, mergeExportMetadata } = await import('./zip-packager')
+    const packager = new ZipPackager(zip)
+    if (imageHandlingStrategy === 'separate_files' && imageMetadataList.length > 0) {
+        const metadata = mergeExportMetadata(project?.gizmo.display.name ?? 'Export All', imageHandlingStrategy, imageMetadataList)
+        metadata.settings = getImageSettings()
+        packager.addFiles(imageFiles).setMetadata(metadata)
+    }
+
+    const blob = await packager.generateZip()
     downloadFile('chatgpt-export-html.zip', 'application/zip', blob)
 
     return true
 }
 
-async function conversationToHtml(conversation: ConversationResult, avatar: string, metaList?: ExportMeta[]) {
-    const { id, title, model, modelSlug, createTime, updateTime, conversationNodes } = conversation
+/**
+ * Make sure the assets of an offline export can be downloaded,
+ * the export is stopped otherwise
+ */
+async function checkOfflineAssets() {
+    const assets = await fetchOfflineAssets()
+    if (assets.length > 0) return true
+
+    alert(i18n.t('Offline HTML Failed'))
+    return false
+}
+
+/**
+ * Export all conversations as a static site: one page per conversation
+ * and an `index.html` with a client-side full-text search. Scripts, styles
+ * and fonts are bundled in `assets/`, so the archive works from `file://`.
+ * The export is stopped when they cannot be downloaded.
+ */
+export async function exportAllToArchiveSite(fileNameFormat: string, apiConversations: ApiConversationWithId[], metaList?: ExportMeta[], project?: ApiProjectDetail | null) {
+    const assets = await fetchOfflineAssets()
+    if (assets.length === 0) {
+        alert(i18n.t('Archive Site Failed'))
+        return false
+    }
+
+    const userAvatar = await getUserAvatar()
+
+    // Initialize image handler with current settings
+    const imageHandlingStrategy = ScriptStorage.get<string>(KEY_IMAGE_HANDLING_STRATEGY) || 'embed_base64'
+    initializeImageHandler(imageHandlingStrategy as any)
+
+    const zip = new JSZip()
+    const filenameMap = new Map<string, number>()
+    const imageFiles: ExportFile[] = []
+    const imageMetadataList: ExportMetadata[] = []
+    const fullTree = ScriptStorage.get<boolean>(KEY_EXPORT_FULL_TREE) ?? false
+    const conversations = apiConversations
+        .map(x => processConversation(x, { fullTree }))
+        .sort((a, b) => b.createTime - a.createTime)
+
+    const rows: string[] = []
+    const searchIndex: Array<{ title: string; text: string }> = []
+
+    for (const conversation of conversations) {
+        let fileName = getFileNameWithFormat(fileNameFormat, 'html', {
+            title: conversation.title,
+            chatId: conversation.id,
+            createTime: conversation.createTime,
+            updateTime: conversation.updateTime,
+        })
+        if (filenameMap.has(fileName)) {
+            const count = filenameMap.get(fileName) ?? 1
+            filenameMap.set(fileName, count + 1)
+            fileName = `${fileName.slice(0, -5)} (${count}).html`
+        }
+        else {
+            filenameMap.set(fileName, 1)
+        }
+        const { html, exportFiles, imageMetadata } = await conversationToHtml(conversation, userAvatar, metaList)
+        const page = localizeAssetUrls(html)
+            .replace('<body>', '<body>\n    <nav class="archive-nav"><a href="index.html">&larr; All conversations</a></nav>')
+        zip.file(fileName, page)
+        imageFiles.push(...(exportFiles ?? []))
+        if (imageMetadata) imageMetadataList.push(imageMetadata)
+
+        const projectName = conversation.projectName ?? project?.gizmo.display.name ?? ''
+        rows.push(`<tr>
+                    <td><a href="${encodeURIComponent(fileName)}">${escapeHtml(conversation.title)}</a><div class="snippet"></div></td>
+                    <td class="date">${conversation.createTime ? dateStr(new Date(conversation.createTime * 1000)) : ''}</td>
+                    <td>${escapeHtml(conversation.model)}</td>
+                    <td>${escapeHtml(projectName)}</td>
+                </tr>`)
+        searchIndex.push({ title: conversation.title, text: getSearchableText(conversation) })
+    }
+
+    const title = project?.gizmo.display.name ?? 'ChatGPT Archive'
+    const index = archiveIndexHtml
+        .replaceAll('{{title}}', escapeHtml(title))
+        .replaceAll('{{lang}}', document.documentElement.lang ?? 'en')
+        .replaceAll('{{theme}}', getColorScheme())
+        .replaceAll('{{count}}', String(conversations.length))
+        .replaceAll('{{time}}', new Date().toISOString())
+        // `<` is escaped so the text cannot close the script tag
+        .replace('{{searchIndex}}', () => JSON.stringify(searchIndex).replace(/</g, '\\u003c'))
+        .replace('{{rows}}', () => rows.join('\n                '))
+    zip.file('index.html', index)
+
+    addProjectContextFiles(zip, project)
+
+    const { ZipPackager, mergeExportMetadata } = await import('./zip-packager')
+    const packager = new ZipPackager(zip)
+    packager.addFiles(assets)
+    if (imageHandlingStrategy === 'separate_files' && imageMetadataList.length > 0) {
+        const metadata = mergeExportMetadata(title, imageHandlingStrategy, imageMetadataList)
+        metadata.settings = getImageSettings()
+        packager.addFiles(imageFiles).setMetadata(metadata)
+    }
+
+    const blob = await packager.generateZip()
+    downloadFile('chatgpt-export-archive.zip', 'application/zip', blob)
+
+    return true
+}
+
+/**
+ * Plain text of the visible messages, used by the archive search
+ */
+function getSearchableText(conversation: ConversationResult): string {
+    const texts: string[] = []
+    for (const { message } of conversation.conversationNodes) {
+        if (!message || !message.content || message.recipient !== 'all') continue
+        if (message.author.role === 'system' || message.author.role === 'tool') continue
+
+        const content = message.content
+        switch (content.content_type) {
+            case 'text':
+                texts.push(...content.parts.filter(part => typeof part === 'string'))
+                break
+            case 'multimodal_text':
+                for (const part of content.parts) {
+                    if (typeof part === 'string') texts.push(part)
+                    else if (part.content_type === 'audio_transcription') texts.push(part.text)
+                }
+                break
+            case 'code':
+            case 'execution_output':
+                texts.push(content.text)
+                break
+        }
+    }
+    return texts.join('\n').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * The user template that reproduces the built-in page,
+ * used as a starting point in the settings
+ */
+export const defaultHtmlTemplate = templateHtml
+
+const HtmlFormat: TemplateFormat = {
+    attachments: (items) => {
+        const list = items.map(({ name, path }) => {
+            return path
+                ? `<li><a href="${escapeHtml(encodeURI(path))}">${escapeHtml(name)}</a></li>`
+                : `<li>${escapeHtml(name)} (not downloaded)</li>`
+        })
+        return `<ul class="attachments">${list.join('')}</ul>`
+    },
+    context: (sections) => {
+        const items = sections.map(([name, text]) => `<div class="context_item"><div>${name}</div><div class="no-katex">${escapeHtml(text)}</div></div>`)
+        return `<details class="context">
+    <summary>Context</summary>
+    <div class="context_container">
+        ${items.join('\n')}
+    </div>
+</details>`
+    },
+}
+
+/**
+ * Render a conversation with the HTML template. With `offline`, the
+ * highlight.js and KaTeX assets are embedded instead of loaded from the CDN.
+ */
+export async function conversationToHtml(conversation: ConversationResult, avatar: string, metaList?: ExportMeta[], attachments: ExportedAttachment[] = [], offline = false) {
+    const { id, title, model, modelSlug, createTime, updateTime, conversationNodes, context } = conversation
 
     const enableTimestamp = ScriptStorage.get<boolean>(KEY_TIMESTAMP_ENABLED) ?? false
     const timeStampHtml = ScriptStorage.get<boolean>(KEY_TIMESTAMP_HTML) ?? false
     const timeStamp24H = ScriptStorage.get<boolean>(KEY_TIMESTAMP_24H) ?? false
+    const exportAudio = ScriptStorage.get<boolean>(KEY_EXPORT_AUDIO) ?? false
+    const exportToolCalls = ScriptStorage.get<boolean>(KEY_EXPORT_TOOL_CALLS) ?? false
 
     const LatexRegex = /(\s\$\$.+?\$\$\s|\s\$.+?\$\s|\\\[.+?\\\]|\\\(.+?\\\))|(^\$$[\S\s]+?^\$$)|(^\$\$[\S\s]+?^\$\$\$)/gm
 
@@ -139,17 +336,21 @@ async function conversationToHtml(conversation: ConversationResult, avatar: stri
         imageMetadata = (imageResult as any).metadata
     }
 
+    const labels = await getAuthorLabels(conversation)
     const conversationHtml = []
+    const messages: TemplateData[] = []
     let imageIndex = 0
 
-    for (const { message } of conversationNodes) {
+    for (const { message, variant } of conversationNodes) {
         if (!message || !message.content) continue
 
         // ChatGPT is talking to tool
-        if (message.recipient !== 'all') continue
+        const isToolCall = message.recipient !== 'all'
+        if (isToolCall && !(exportToolCalls && isExportableToolCall(message))) continue
 
         // Skip tool's intermediate message.
-        if (message.author.role === 'tool') {
+        const isToolResult = message.author.role === 'tool' && exportToolCalls && isExportableToolResult(message)
+        if (message.author.role === 'tool' && !isToolResult) {
             if (
                 // HACK: we special case the content_type 'multimodal_text' here because it is used by
                 // the dalle tool to return the image result, and we do want to show that.
@@ -164,7 +365,7 @@ async function conversationToHtml(conversation: ConversationResult, avatar: stri
             }
         }
 
-        const author = transformAuthor(message.author)
+        const author = transformAuthor(message.author, labels)
         const model = message?.metadata?.model_slug === 'gpt-4' ? 'GPT-4' : 'GPT-3'
         const authorType = message.author.role === 'user' ? 'user' : model
         const avatarEl = message.author.role === 'user'
@@ -208,8 +409,18 @@ async function conversationToHtml(conversation: ConversationResult, avatar: stri
         if (message.author.role === 'user') {
             postSteps = [...postSteps, input => `<p class="no-katex">${escapeHtml(input)}</p>`]
         }
+        // Images of the code interpreter are already html
+        if (isToolResult && countImagesInMessage(message) === 0) {
+            postSteps = [...postSteps, input => toHtml(fromMarkdown(input))]
+        }
         const postProcess = (input: string) => postSteps.reduce((acc, fn) => fn(acc), input)
-        const messageContent = await transformContent(message.content, message.metadata, postProcess, processedImages, imageIndex)
+        const messageContent = replaceSandboxLinks(
+            isToolCall
+                ? postProcess(transformToolCall(message))
+                : await transformContent(message.content, message.metadata, postProcess, processedImages, imageIndex, attachments, exportAudio),
+            attachments,
+            message.id,
+        ) + transformAttachments(getMessageUploads(attachments, message.id), HtmlFormat)
 
         // Update image index for next message
         imageIndex += countImagesInMessage(message)
@@ -221,23 +432,35 @@ async function conversationToHtml(conversation: ConversationResult, avatar: stri
 
         if (showTimestamp) {
             const date = new Date(timestamp * 1000)
-            // format: 20:12 / 08:12 PM
-            conversationTime = date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: !timeStamp24H })
+            conversationTime = formatMessageTime(date, timeStamp24H)
             timestampHtml = `<time class="time" datetime="${date.toISOString()}" title="${date.toLocaleString()}">${conversationTime}</time>`
         }
 
+        // Label alternative branches in full tree mode
+        const variantHtml = variant
+            ? `<div class="variant-label${variant.isCurrent ? ' current' : ''}" title="Branch ${variant.branch}">${variant.label}</div>`
+            : ''
+
         conversationHtml.push(`
 <div class="conversation-item">
     <div class="author ${authorType}">
         ${avatarEl}
     </div>
     <div class="conversation-content-wrapper">
+        ${variantHtml}
         <div class="conversation-content">
             ${messageContent}
         </div>
     </div>
     ${timestampHtml}
 </div>`)
+        messages.push(getMessageTemplateData(message, {
+            index: messages.length + 1,
+            author: variant ? `${author} (${variant.label})` : author,
+            content: messageContent,
+            timeHtml: timestampHtml,
+            hour24: timeStamp24H,
+        }))
     }
 
     const date = dateStr()
@@ -271,16 +494,34 @@ async function conversationToHtml(conversation: ConversationResult, avatar: stri
 </details>`
         : ''
 
-    const html = templateHtml
-        .replaceAll('{{title}}', title)
-        .replaceAll('{{date}}', date)
-        .replaceAll('{{time}}', time)
-        .replaceAll('{{source}}', source)
-        .replaceAll('{{lang}}', lang)
-        .replaceAll('{{theme}}', theme)
-        .replaceAll('{{avatar}}', avatar)
-        .replaceAll('{{details}}', detailsHtml)
-        .replaceAll('{{content}}', conversationHtml.join('\n\n'))
+    const exportContext = ScriptStorage.get<boolean>(KEY_EXPORT_CONTEXT) ?? false
+    const contextHtml = exportContext && hasConversationContext(context)
+        ? transformContext(context, HtmlFormat)
+        : ''
+
+    const template = getUsableTemplate(ScriptStorage.get<string>(KEY_TEMPLATE_HTML) ?? '')
+    let html = template.trim()
+        ? renderTemplate(template, {
+            ...getConversationTemplateData(conversation, { source, content: conversationHtml.join('\n\n'), messages }),
+            date,
+            time,
+            lang,
+            theme,
+            avatar,
+            details: `${detailsHtml}${contextHtml}`,
+        })
+        : templateHtml
+            .replaceAll('{{title}}', title)
+            .replaceAll('{{date}}', date)
+            .replaceAll('{{time}}', time)
+            .replaceAll('{{source}}', source)
+            .replaceAll('{{lang}}', lang)
+            .replaceAll('{{theme}}', theme)
+            .replaceAll('{{avatar}}', avatar)
+            .replaceAll('{{details}}', `${detailsHtml}${contextHtml}`)
+            .replaceAll('{{content}}', conversationHtml.join('\n\n'))
+
+    if (offline) html = await inlineOfflineAssets(html)
 
     return {
         html,
@@ -289,17 +530,20 @@ async function conversationToHtml(conversation: ConversationResult, avatar: stri
     }
 }
 
-function transformAuthor(author: ConversationNodeMessage['author']): string {
-    switch (author.role) {
-        case 'assistant':
-            return 'ChatGPT'
-        case 'user':
-            return 'You'
-        case 'tool':
-            return `Plugin${author.name ? ` (${author.name})` : ''}`
-        default:
-            return author.role
+/**
+ * Render a processed image. With `link_original` the image is
+ * a plain link, since the url may expire or need a login.
+ */
+function transformImage(image: ProcessedImage): string {
+    const alt = escapeHtml(image.metadata?.altText || 'image')
+    if (getImageHandler().getStrategy() === 'link_original') {
+        const expiresAt = image.metadata?.expiresAt
+        const expiry = expiresAt
+            ? ` <span class="image-link-expiry">(expires <time datetime="${expiresAt}">${new Date(expiresAt).toLocaleString()}</time>)</span>`
+            : ''
+        return `<a class="image-link" href="${escapeHtml(image.content)}" target="_blank" rel="noopener noreferrer">${alt}</a>${expiry}`
     }
+    return `<img src="${image.content}" alt="${alt}" />`
 }
 
 /**
@@ -382,6 +626,11 @@ function extractImagesFromConversation(conversation: ConversationResult): Array<
                         contentType: 'multimodal_text',
                         author: message.author,
                         timestamp: message.create_time,
+                        metadata: {
+                            width: (part as any).width,
+                            height: (part as any).height,
+                            prompt: (part as any).metadata?.dalle?.prompt,
+                        },
                     }
 
                     images.push({
@@ -423,12 +672,14 @@ async function transformContent(
     postProcess: (input: string) => string,
     processedImages: ProcessedImage[],
     imageStartIndex: number,
+    attachments: ExportedAttachment[],
+    exportAudio: boolean,
 ) {
     switch (content.content_type) {
         case 'text':
             return postProcess(content.parts?.join('\n') || '')
         case 'code':
-            return `Code:\n\`\`\`\n${content.text}\n\`\`\`` || ''
+            return postProcess(transformCode(content))
         case 'execution_output':
             if (metadata?.aggregate_result?.messages) {
                 const imageMessages = metadata.aggregate_result.messages.filter(msg => msg.message_type === 'image')
@@ -438,7 +689,7 @@ async function transformContent(
                         const processedImage = processedImages[globalIndex]
 
                         if (processedImage && processedImage.content) {
-                            return `<img src="${processedImage.content}" />`
+                            return transformImage(processedImage)
                         }
                         else {
                             return `[IMAGE_${globalIndex}]`
@@ -449,10 +700,12 @@ async function transformContent(
                 }
             }
             return postProcess(`Result:\n\`\`\`\n${content.text}\n\`\`\`` || '')
-        case 'tether_quote':
-            return postProcess(`> ${content.title || content.text || ''}`)
+        case 'tether_quote': {
+            const title = content.title || content.text || ''
+            return postProcess(`> ${content.url ? `[${title || content.url}](${content.url})` : title}`)
+        }
         case 'tether_browsing_code':
-            return postProcess('') // TODO: implement
+            return postProcess(transformBrowsingCall(content, metadata))
         case 'tether_browsing_display': {
             const metadataList = metadata?._cite_metadata?.metadata_list
             if (Array.isArray(metadataList) && metadataList.length > 0) {
@@ -475,16 +728,24 @@ async function transformContent(
                     const processedImage = processedImages[globalImageIndex]
 
                     if (processedImage && processedImage.content) {
-                        return `<img src="${processedImage.content}" />`
+                        return transformImage(processedImage)
                     }
 
                     return `[IMAGE_${globalImageIndex}]`
                 }
                 if (typeof part === 'object' && 'content_type' in part && part.content_type === 'audio_transcription') {
-                    return `<div style="font-style: italic; opacity: 0.65;">"${(part as any).text}"</div>`
+                    const segment = exportAudio ? getAudioSegment(content.parts, partIndex) : null
+                    const segmentHtml = segment ? `<span class="audio-segment">${formatAudioSegment(segment)}</span> ` : ''
+                    return `<div style="font-style: italic; opacity: 0.65;">${segmentHtml}"${(part as any).text}"</div>`
+                }
+                if (typeof part === 'object' && 'content_type' in part && (part.content_type === 'audio_asset_pointer' || part.content_type === 'real_time_user_audio_video_asset_pointer')) {
+                    const clip = exportAudio ? getAudioClip(part) : null
+                    const audio = clip && getAudioAttachment(attachments, clip.pointer)
+                    if (!audio) return null
+                    return audio.path
+                        ? `<audio class="audio-clip" controls preload="none" src="${escapeHtml(encodeURI(audio.path))}" title="${escapeHtml(audio.name)}"></audio>`
+                        : `<div class="audio-clip">${escapeHtml(audio.name)} (not downloaded)</div>`
                 }
-                if (typeof part === 'object' && 'content_type' in part && part.content_type === 'audio_asset_pointer') return null
-                if (typeof part === 'object' && 'content_type' in part && part.content_type === 'real_time_user_audio_video_asset_pointer') return null
                 return postProcess('[Unsupported multimodal content]')
             }) || []
 
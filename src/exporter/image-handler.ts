@@ -1,3 +1,5 @@
+import { KEY_IMAGE_CUSTOM_MARKER, KEY_IMAGE_INCLUDE_METADATA, KEY_IMAGE_MAX_SIZE, KEY_IMAGE_OUTPUT_FORMAT, KEY_IMAGE_QUALITY } from '../constants'
+import { ScriptStorage } from '../utils/storage'
 import { createImageProcessor, getAvailableStrategies } from './image-strategies'
 import {
     base64ToBlob,
@@ -9,6 +11,7 @@ import type {
     ImageContext,
     ImageHandler,
     ImageHandlingStrategy,
+    ImageOutputFormat,
     ImageProcessor,
     LegacyImageData,
     ProcessedImage,
@@ -79,8 +82,9 @@ export class DefaultImageHandler implements ImageHandler {
         // Generate content based on strategy
         const result = await this.generateContentFromImages(processedImages, format)
 
-        // Add metadata for Option 3
-        if (this.currentStrategy === 'separate_files' && result.files && result.files.length > 0) {
+        // Add metadata for Option 3. Images already stored by a previous
+        // conversation of a bulk export have no files but still need their usages.
+        if (this.currentStrategy === 'separate_files' && processedImages.some(img => img.fileName)) {
             (result as any).metadata = this.generateExportMetadata(processedImages, images)
         }
 
@@ -128,24 +132,49 @@ export class DefaultImageHandler implements ImageHandler {
      * Generate export metadata for Option 3
      */
     private generateExportMetadata(processedImages: ProcessedImage[], images: Array<{ url: string; context: ImageContext }>): ExportMetadata {
-        const imageMetadata = processedImages
-            .filter(img => img.metadata && img.fileName)
-            .map((img, index) => {
-                const originalContext = images[index]?.context
-                return {
-                    id: img.id,
-                    originalUrl: img.metadata!.originalUrl,
-                    fileName: img.fileName!,
-                    mimeType: img.metadata!.mimeType,
-                    size: img.metadata!.fileSize || 0,
-                    messageContext: {
-                        messageId: originalContext?.messageId || '',
-                        author: img.metadata!.messageContext?.author || 'unknown',
-                        role: img.metadata!.messageContext?.role || 'unknown',
-                        timestamp: img.metadata!.timestamp,
-                    },
-                }
+        // Identical images share one file, group their usages by content hash
+        const entries = new Map<string, ExportMetadata['images'][number]>()
+        processedImages.forEach((img, index) => {
+            if (!img.metadata || !img.fileName) return
+
+            const originalContext = images[index]?.context
+            const usage = {
+                conversationId: originalContext?.conversationId,
+                messageId: originalContext?.messageId || '',
+                author: img.metadata.messageContext?.author || 'unknown',
+                role: img.metadata.messageContext?.role || 'unknown',
+                timestamp: img.metadata.timestamp,
+            }
+
+            const key = img.hash ?? img.id
+            const entry = entries.get(key)
+            if (entry) {
+                entry.usages?.push(usage)
+                return
+            }
+
+            entries.set(key, {
+                id: img.id,
+                originalUrl: img.metadata.originalUrl,
+                fileName: img.fileName,
+                mimeType: img.metadata.mimeType,
+                size: img.metadata.fileSize || 0,
+                width: img.metadata.width,
+                height: img.metadata.height,
+                originalWidth: img.metadata.originalWidth,
+                originalHeight: img.metadata.originalHeight,
+                originalSize: img.metadata.originalFileSize,
+                hash: img.hash,
+                messageContext: {
+                    messageId: usage.messageId,
+                    author: usage.author,
+                    role: usage.role,
+                    timestamp: usage.timestamp,
+                },
+                usages: [usage],
             })
+        })
+        const imageMetadata = [...entries.values()]
 
         return {
             version: '1.0.0',
@@ -237,6 +266,9 @@ export class DefaultImageHandler implements ImageHandler {
                     else if (this.currentStrategy === 'separate_files') {
                         replacement = `![image](${image.content})`
                     }
+                    else if (this.currentStrategy === 'link_original') {
+                        replacement = `[image](${image.content})`
+                    }
                     break
 
                 case 'html':
@@ -249,6 +281,9 @@ export class DefaultImageHandler implements ImageHandler {
                     else if (this.currentStrategy === 'separate_files') {
                         replacement = `<img src="${image.content}" />`
                     }
+                    else if (this.currentStrategy === 'link_original') {
+                        replacement = `<a href="${image.content}">image</a>`
+                    }
                     break
 
                 case 'json':
@@ -290,6 +325,19 @@ export function initializeImageHandler(strategy: ImageHandlingStrategy): void {
     globalImageHandler = new DefaultImageHandler(strategy)
 }
 
+/**
+ * Image settings recorded in the metadata of an export archive
+ */
+export function getImageSettings(): ExportMetadata['settings'] {
+    return {
+        imageQuality: ScriptStorage.get<number>(KEY_IMAGE_QUALITY) || 85,
+        maxImageSize: ScriptStorage.get<number>(KEY_IMAGE_MAX_SIZE) || 2048,
+        imageOutputFormat: ScriptStorage.get<ImageOutputFormat>(KEY_IMAGE_OUTPUT_FORMAT) || 'original',
+        includeImageMetadata: ScriptStorage.get<boolean>(KEY_IMAGE_INCLUDE_METADATA) ?? true,
+        customMarkerText: ScriptStorage.get<string>(KEY_IMAGE_CUSTOM_MARKER) || '[Image Omitted]',
+    }
+}
+
 /**
  * Get available image handling strategies
  */
@@ -1,20 +1,26 @@
-import { KEY_IMAGE_CUSTOM_MARKER } from '../constants'
+import { fetchFileDownloadUrl } from '../api'
+import { KEY_IMAGE_CUSTOM_MARKER, KEY_IMAGE_MAX_SIZE, KEY_IMAGE_OUTPUT_FORMAT, KEY_IMAGE_QUALITY } from '../constants'
 import { ScriptStorage } from '../utils/storage'
 import {
     createImageRelativePath,
+    encodeImage,
     generateImageFileName,
     generateImageId,
-    getBase64FromImageUrl,
-    getFileSizeFromBase64,
+    getExtensionFromMimeType,
     getMimeType,
+    getUrlExpiry,
+    hashDataUrl,
     sanitizeFileName,
 } from './image-utils'
 import type {
     ImageContext,
     ImageHandlingStrategy,
+    ImageMetadata,
+    ImageOutputFormat,
     ImageProcessor,
     ProcessedImage,
 } from './image-types'
+import type { EncodedImage } from './image-utils'
 
 /**
  * Base class for image processing strategies
@@ -45,6 +51,30 @@ abstract class BaseImageProcessor implements ImageProcessor {
         // Base implementation - should be overridden by subclasses
         return originalContent
     }
+
+    /**
+     * Load the image and apply quality, max size and output format settings
+     */
+    protected encodeImage(imageUrl: string): Promise<EncodedImage> {
+        return encodeImage(imageUrl, {
+            quality: ScriptStorage.get<number>(KEY_IMAGE_QUALITY) || 85,
+            maxSize: ScriptStorage.get<number>(KEY_IMAGE_MAX_SIZE) || 2048,
+            format: ScriptStorage.get<ImageOutputFormat>(KEY_IMAGE_OUTPUT_FORMAT) || 'original',
+        })
+    }
+
+    protected getEncodedMetadata(encoded: EncodedImage): Pick<ImageMetadata, 'mimeType' | 'width' | 'height' | 'fileSize' | 'originalMimeType' | 'originalWidth' | 'originalHeight' | 'originalFileSize'> {
+        return {
+            mimeType: encoded.mimeType,
+            width: encoded.width,
+            height: encoded.height,
+            fileSize: encoded.fileSize,
+            originalMimeType: encoded.originalMimeType,
+            originalWidth: encoded.originalWidth,
+            originalHeight: encoded.originalHeight,
+            originalFileSize: encoded.originalFileSize,
+        }
+    }
 }
 
 /**
@@ -60,17 +90,16 @@ class EmbedBase64Strategy extends BaseImageProcessor {
         const mimeType = getMimeType(imageUrl)
 
         try {
-            const base64Data = await getBase64FromImageUrl(imageUrl)
-            const dataUri = `data:${mimeType};base64,${base64Data.split(',')[1]}`
+            const encoded = await this.encodeImage(imageUrl)
 
             return {
                 id,
-                content: dataUri,
-                originalData: base64Data,
+                content: encoded.dataUrl,
+                originalData: encoded.dataUrl,
                 metadata: {
                     originalUrl: imageUrl,
-                    mimeType,
-                    fileSize: getFileSizeFromBase64(base64Data),
+                    ...this.getEncodedMetadata(encoded),
+                    altText: context.metadata?.prompt,
                     timestamp: context.timestamp,
                 },
             }
@@ -149,6 +178,12 @@ class TextMarkerStrategy extends BaseImageProcessor {
  * Strategy 3: Separate images into files with relative links
  */
 class SeparateFilesStrategy extends BaseImageProcessor {
+    /**
+     * Content hash to file name of every image stored so far. The processor lives
+     * for a whole export, so identical images across conversations share one file.
+     */
+    private storedFiles = new Map<string, string>()
+
     getStrategyName(): ImageHandlingStrategy {
         return 'separate_files'
     }
@@ -158,20 +193,26 @@ class SeparateFilesStrategy extends BaseImageProcessor {
         const mimeType = getMimeType(imageUrl)
 
         try {
-            const base64Data = await getBase64FromImageUrl(imageUrl)
-            const extension = mimeType.split('/')[1] || 'png'
-            const fileName = sanitizeFileName(generateImageFileName(context, extension))
+            const encoded = await this.encodeImage(imageUrl)
+            const hash = await hashDataUrl(encoded.dataUrl)
+
+            // Only the first occurrence carries the data, the rest reuse its file
+            const storedFileName = this.storedFiles.get(hash)
+            const extension = getExtensionFromMimeType(encoded.mimeType)
+            const fileName = storedFileName ?? sanitizeFileName(generateImageFileName(context, extension, hash))
+            if (!storedFileName) this.storedFiles.set(hash, fileName)
             const relativePath = createImageRelativePath(fileName)
 
             return {
                 id,
                 content: relativePath, // Relative path for linking
-                originalData: base64Data,
+                originalData: storedFileName ? undefined : encoded.dataUrl,
                 fileName,
+                hash,
                 metadata: {
                     originalUrl: imageUrl,
-                    mimeType,
-                    fileSize: getFileSizeFromBase64(base64Data),
+                    ...this.getEncodedMetadata(encoded),
+                    altText: context.metadata?.prompt,
                     timestamp: context.timestamp,
                     messageContext: context.author
                         ? {
@@ -205,6 +246,53 @@ class SeparateFilesStrategy extends BaseImageProcessor {
     }
 }
 
+/**
+ * Strategy 4: Keep the original url as a link, nothing is downloaded
+ */
+class LinkOriginalStrategy extends BaseImageProcessor {
+    getStrategyName(): ImageHandlingStrategy {
+        return 'link_original'
+    }
+
+    async processImage(imageUrl: string, context: ImageContext): Promise<ProcessedImage> {
+        const id = generateImageId(context)
+        const mimeType = getMimeType(imageUrl)
+
+        // Pointers only work inside ChatGPT, try to resolve them to a signed url
+        let url = imageUrl
+        if (/^(file-service|sediment):\/\//.test(imageUrl)) {
+            try {
+                url = await fetchFileDownloadUrl(imageUrl) ?? imageUrl
+            }
+            catch (error) {
+                console.warn(`Failed to resolve image ${imageUrl}:`, error)
+            }
+        }
+
+        return {
+            id,
+            // Data uris are not links, do not inline them
+            content: url.startsWith('data:') ? '' : url,
+            metadata: {
+                originalUrl: imageUrl,
+                mimeType,
+                width: context.metadata?.width,
+                height: context.metadata?.height,
+                altText: context.metadata?.prompt,
+                expiresAt: getUrlExpiry(url),
+                timestamp: context.timestamp,
+            },
+        }
+    }
+
+    generateContent(
+        _processedImages: ProcessedImage[],
+        originalContent: string,
+    ): string {
+        return originalContent
+    }
+}
+
 /**
  * Factory function to create image processors
  */
@@ -216,6 +304,8 @@ export function createImageProcessor(strategy: ImageHandlingStrategy): ImageProc
             return new TextMarkerStrategy()
         case 'separate_files':
             return new SeparateFilesStrategy()
+        case 'link_original':
+            return new LinkOriginalStrategy()
         default:
             throw new Error(`Unknown image handling strategy: ${strategy}`)
     }
@@ -225,5 +315,5 @@ export function createImageProcessor(strategy: ImageHandlingStrategy): ImageProc
  * Get all available strategies
  */
 export function getAvailableStrategies(): ImageHandlingStrategy[] {
-    return ['embed_base64', 'text_marker', 'separate_files']
+    return ['embed_base64', 'text_marker', 'separate_files', 'link_original']
 }
@@ -2,7 +2,9 @@
  * Type definitions for image handling system
  */
 
-export type ImageHandlingStrategy = 'embed_base64' | 'text_marker' | 'separate_files'
+export type ImageHandlingStrategy = 'embed_base64' | 'text_marker' | 'separate_files' | 'link_original'
+
+export type ImageOutputFormat = 'original' | 'jpeg' | 'webp'
 
 export type ImageContentType =
     | 'image_asset_pointer'
@@ -24,6 +26,8 @@ export interface ImageContext {
     metadata?: {
         width?: number
         height?: number
+        /** DALL·E prompt of generated images */
+        prompt?: string
     }
 }
 
@@ -33,6 +37,7 @@ export interface ProcessedImage {
     originalData?: string // Base64 data
     metadata?: ImageMetadata
     fileName?: string // For Option 3
+    hash?: string // SHA-256 of the stored data, for Option 3
 }
 
 export interface ImageMetadata {
@@ -41,6 +46,14 @@ export interface ImageMetadata {
     width?: number
     height?: number
     fileSize?: number
+    // Before downscaling and re-encoding
+    originalMimeType?: string
+    originalWidth?: number
+    originalHeight?: number
+    originalFileSize?: number
+    altText?: string
+    /** ISO datetime after which a linked url stops working */
+    expiresAt?: string
     timestamp?: number
     messageContext?: {
         author: string
@@ -66,19 +79,44 @@ export interface ExportMetadata {
         fileName: string
         mimeType: string
         size: number
+        width?: number
+        height?: number
+        originalWidth?: number
+        originalHeight?: number
+        originalSize?: number
+        hash?: string
         messageContext?: {
             messageId?: string
             author: string
             role: string
             timestamp?: number
         }
+        /** Every place the same image is used, including the first one */
+        usages?: Array<{
+            conversationId?: string
+            messageId?: string
+            author: string
+            role: string
+            timestamp?: number
+        }>
     }>
     settings: {
         imageQuality?: number
         maxImageSize?: number
+        imageOutputFormat?: ImageOutputFormat
         includeImageMetadata?: boolean
         customMarkerText?: string
     }
+    attachments?: Array<{
+        id: string
+        fileName: string
+        path?: string // Relative path in ZIP, missing when the download failed
+        mimeType?: string
+        size?: number
+        source: 'upload' | 'sandbox' | 'audio'
+        messageId: string
+        error?: string
+    }>
 }
 
 export interface ImageProcessor {
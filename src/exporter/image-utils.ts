@@ -1,4 +1,5 @@
-import type { ImageContext } from './image-types'
+import { blobToDataURL } from '../utils/dom'
+import type { ImageContext, ImageOutputFormat } from './image-types'
 
 /**
  * Load an image from URL and return as HTMLImageElement
@@ -34,6 +35,133 @@ export async function getBase64FromImageUrl(url: string): Promise<string> {
     return getBase64FromImg(img)
 }
 
+export interface ImageEncodeOptions {
+    /** 10-100, only applies to lossy formats */
+    quality: number
+    /** Longest edge in pixels */
+    maxSize: number
+    format: ImageOutputFormat
+}
+
+export interface EncodedImage {
+    dataUrl: string
+    mimeType: string
+    width: number
+    height: number
+    fileSize: number
+    originalMimeType: string
+    originalWidth: number
+    originalHeight: number
+    originalFileSize?: number
+}
+
+// Formats every browser can encode with canvas.toDataURL
+const CanvasMimeTypes = ['image/png', 'image/jpeg', 'image/webp']
+
+/**
+ * Load an image, downscale it to fit `maxSize` and re-encode it in the
+ * requested format. The original bytes are kept untouched when the image
+ * is small enough and the format does not change.
+ */
+export async function encodeImage(url: string, options: ImageEncodeOptions): Promise<EncodedImage> {
+    const source = await fetchImageBlob(url)
+    const objectUrl = source ? URL.createObjectURL(source) : null
+
+    try {
+        const img = await loadImage(objectUrl ?? url)
+        const originalWidth = img.naturalWidth
+        const originalHeight = img.naturalHeight
+        const originalMimeType = source?.type || getMimeType(url)
+
+        const longestEdge = Math.max(originalWidth, originalHeight)
+        const scale = options.maxSize > 0 && longestEdge > options.maxSize ? options.maxSize / longestEdge : 1
+        const width = Math.max(1, Math.round(originalWidth * scale))
+        const height = Math.max(1, Math.round(originalHeight * scale))
+
+        const targetMimeType = options.format === 'jpeg'
+            ? 'image/jpeg'
+            : options.format === 'webp'
+                ? 'image/webp'
+                : originalMimeType
+
+        if (source && scale === 1 && targetMimeType === originalMimeType) {
+            return {
+                dataUrl: await blobToDataURL(source),
+                mimeType: originalMimeType,
+                width,
+                height,
+                fileSize: source.size,
+                originalMimeType,
+                originalWidth,
+                originalHeight,
+                originalFileSize: source.size,
+            }
+        }
+
+        const outputMimeType = CanvasMimeTypes.includes(targetMimeType) ? targetMimeType : 'image/png'
+        const canvas = document.createElement('canvas')
+        canvas.width = width
+        canvas.height = height
+        const ctx = canvas.getContext('2d')
+        if (!ctx) throw new Error('Canvas is not supported')
+
+        // JPEG has no alpha channel, transparent pixels would turn black
+        if (outputMimeType === 'image/jpeg') {
+            ctx.fillStyle = '#fff'
+            ctx.fillRect(0, 0, width, height)
+        }
+        ctx.imageSmoothingQuality = 'high'
+        ctx.drawImage(img, 0, 0, width, height)
+
+        const dataUrl = canvas.toDataURL(outputMimeType, options.quality / 100)
+        return {
+            dataUrl,
+            // Browsers without WebP encoder fall back to PNG
+            mimeType: getMimeType(dataUrl),
+            width,
+            height,
+            fileSize: getFileSizeFromBase64(dataUrl),
+            originalMimeType,
+            originalWidth,
+            originalHeight,
+            originalFileSize: source?.size,
+        }
+    }
+    finally {
+        if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+}
+
+/**
+ * Fetch the raw image to learn its real type and size.
+ * Returns null when it cannot be fetched, eg. blocked by CORS.
+ */
+async function fetchImageBlob(url: string): Promise<Blob | null> {
+    try {
+        const response = await fetch(url)
+        if (!response.ok) return null
+        const blob = await response.blob()
+        return blob.type.startsWith('image/') ? blob : null
+    }
+    catch {
+        return null
+    }
+}
+
+/**
+ * File extension for a MIME type, eg. `image/jpeg` -> `jpg`
+ */
+export function getExtensionFromMimeType(mimeType: string): string {
+    switch (mimeType) {
+        case 'image/jpeg':
+            return 'jpg'
+        case 'image/svg+xml':
+            return 'svg'
+        default:
+            return mimeType.split('/')[1] || 'png'
+    }
+}
+
 /**
  * Extract MIME type from data URL or guess from URL
  */
@@ -77,6 +205,7 @@ export function generateImageId(context: ImageContext): string {
 export function generateImageFileName(
     context: ImageContext,
     extension: string = 'png',
+    hash?: string,
 ): string {
     const { author } = context
     let prefix = 'image'
@@ -98,7 +227,9 @@ export function generateImageFileName(
     }
 
     const paddedIndex = context.imageIndex.toString().padStart(3, '0')
-    return `${prefix}-${paddedIndex}.${extension}`
+    // A short hash keeps names unique across messages
+    const suffix = hash ? `-${hash.slice(0, 8)}` : ''
+    return `${prefix}-${paddedIndex}${suffix}.${extension}`
 }
 
 /**
@@ -111,6 +242,15 @@ export function base64ToBlob(base64: string, mimeType: string): Blob {
     return new Blob([byteArray], { type: mimeType })
 }
 
+/**
+ * SHA-256 hex digest of a base64 data url
+ */
+export async function hashDataUrl(dataUrl: string): Promise<string> {
+    const buffer = await base64ToBlob(dataUrl, getMimeType(dataUrl)).arrayBuffer()
+    const digest = await crypto.subtle.digest('SHA-256', buffer)
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
 /**
  * Get file size from base64 data
  */
@@ -143,6 +283,27 @@ export function getCurrentTimestamp(): string {
     return new Date().toISOString()
 }
 
+/**
+ * Read the expiry of a signed url, eg. `se=` of Azure SAS or `Expires=` of S3/CloudFront
+ */
+export function getUrlExpiry(url: string): string | undefined {
+    try {
+        const params = new URL(url).searchParams
+        const sasExpiry = params.get('se')
+        if (sasExpiry && !Number.isNaN(Date.parse(sasExpiry))) {
+            return new Date(sasExpiry).toISOString()
+        }
+        const expires = params.get('Expires')
+        if (expires && /^\d+$/.test(expires)) {
+            return new Date(+expires * 1000).toISOString()
+        }
+    }
+    catch {
+        // not a valid url
+    }
+    return undefined
+}
+
 /**
  * Validate image URL (basic validation)
  */
@@ -1,21 +1,292 @@
 import html2canvas from 'html2canvas'
+import JSZip from 'jszip'
+import { fetchConversation, getCurrentChatId, processConversation } from '../api'
+import { KEY_EXPORT_FULL_TREE, KEY_IMAGE_HANDLING_STRATEGY, KEY_SCREENSHOT_FORMAT, KEY_SCREENSHOT_PADDING, KEY_SCREENSHOT_SCALE, KEY_SCREENSHOT_SEGMENT_HEIGHT, KEY_SCREENSHOT_SOURCE, KEY_SCREENSHOT_SPLIT, KEY_SCREENSHOT_THEME, KEY_SCREENSHOT_WIDTH } from '../constants'
 import i18n from '../i18n'
-import { checkIfConversationStarted, getChatIdFromUrl } from '../page'
-import { downloadUrl, getFileNameWithFormat } from '../utils/download'
+import { checkIfConversationStarted, getChatIdFromUrl, getUserAvatar } from '../page'
+import { downloadFile, downloadUrl, getFileNameWithFormat } from '../utils/download'
 import { Effect } from '../utils/effect'
-import { sleep } from '../utils/utils'
+import { applyMessageSelection, getMessageSelection } from '../utils/message-selection'
+import { ScriptStorage } from '../utils/storage'
+import { getColorScheme, sleep } from '../utils/utils'
+import { conversationToHtml } from './html'
+import { initializeImageHandler } from './image-handler'
+import { tryInlineOfflineAssets } from './offline-assets'
+import type { ImageHandlingStrategy } from './image-types'
+import type { ApiConversationWithId, ApiProjectDetail } from '../api'
+import type { ExportMeta } from '../ui/SettingContext'
+
+/** `html` renders the exported HTML, `page` captures the live ChatGPT page */
+export type ScreenshotSource = 'html' | 'page'
+export type ScreenshotTheme = 'auto' | 'light' | 'dark'
+export type ScreenshotFormat = 'png' | 'jpeg' | 'webp'
+
+const ScreenshotMimeTypes: Record<ScreenshotFormat, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+}
+
+export interface ScreenshotOptions {
+    /** css width of the rendered page */
+    width: number
+    theme: ScreenshotTheme
+    /** css padding around the conversation */
+    padding: number
+    /** device pixels per css pixel */
+    scale: number
+    format: ScreenshotFormat
+    /** css height of each image, 0 splits only when the canvas limit is hit */
+    segmentHeight: number
+}
+
+// Stay below the canvas limits of every browser
+// See https://developer.mozilla.org/en-US/docs/Web/HTML/Element/canvas#maximum_canvas_size
+const MaxCanvasHeight = 16384
+const MaxCanvasArea = 8192 * 8192
 
 // https://github.com/niklasvh/html2canvas/issues/2792#issuecomment-1042948572
 function fnIgnoreElements(el: any) {
     return typeof el.shadowRoot === 'object' && el.shadowRoot !== null
 }
 
-export async function exportToPng(fileNameFormat: string) {
+export async function exportToPng(fileNameFormat: string, metaList: ExportMeta[] = []) {
     if (!checkIfConversationStarted()) {
         alert(i18n.t('Please start a conversation first'))
         return false
     }
 
+    const options = getScreenshotOptions()
+    const source = ScriptStorage.get<ScreenshotSource>(KEY_SCREENSHOT_SOURCE) || 'page'
+    if (source === 'page') return exportPageToPng(fileNameFormat, options)
+
+    const userAvatar = await getUserAvatar()
+
+    const imageHandlingStrategy = getScreenshotImageStrategy()
+    initializeImageHandler(imageHandlingStrategy)
+
+    const chatId = await getCurrentChatId()
+    const rawConversation = applyMessageSelection(await fetchConversation(chatId, imageHandlingStrategy !== 'link_original'))
+    const fullTree = ScriptStorage.get<boolean>(KEY_EXPORT_FULL_TREE) ?? false
+    const conversation = processConversation(rawConversation, { fullTree })
+
+    const { html } = await conversationToHtml(conversation, userAvatar, metaList)
+    const images = await renderHtmlToImages(html, options)
+
+    const fileName = getFileNameWithFormat(fileNameFormat, options.format, {
+        title: conversation.title,
+        chatId,
+        createTime: conversation.createTime,
+        updateTime: conversation.updateTime,
+    })
+    await downloadImages(fileName, images)
+
+    return true
+}
+
+export async function exportAllToPng(fileNameFormat: string, apiConversations: ApiConversationWithId[], metaList?: ExportMeta[], _project?: ApiProjectDetail | null) {
+    const userAvatar = await getUserAvatar()
+
+    initializeImageHandler(getScreenshotImageStrategy())
+
+    const zip = new JSZip()
+    const filenameMap = new Map<string, number>()
+    const options = getScreenshotOptions()
+    const ext = `.${options.format}`
+    const fullTree = ScriptStorage.get<boolean>(KEY_EXPORT_FULL_TREE) ?? false
+    const conversations = apiConversations.map(x => processConversation(x, { fullTree }))
+
+    for (const conversation of conversations) {
+        let fileName = getFileNameWithFormat(fileNameFormat, options.format, {
+            title: conversation.title,
+            chatId: conversation.id,
+            createTime: conversation.createTime,
+            updateTime: conversation.updateTime,
+        })
+        if (filenameMap.has(fileName)) {
+            const count = filenameMap.get(fileName) ?? 1
+            filenameMap.set(fileName, count + 1)
+            fileName = `${fileName.slice(0, -ext.length)} (${count})${ext}`
+        }
+        else {
+            filenameMap.set(fileName, 1)
+        }
+
+        const { html } = await conversationToHtml(conversation, userAvatar, metaList)
+        addImageSegments(zip, fileName, await renderHtmlToImages(html, options))
+    }
+
+    const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })
+    downloadFile(`chatgpt-export-${options.format}.zip`, 'application/zip', blob)
+
+    return true
+}
+
+function getScreenshotOptions(): ScreenshotOptions {
+    return {
+        width: ScriptStorage.get<number>(KEY_SCREENSHOT_WIDTH) || 800,
+        theme: ScriptStorage.get<ScreenshotTheme>(KEY_SCREENSHOT_THEME) || 'auto',
+        padding: ScriptStorage.get<number>(KEY_SCREENSHOT_PADDING) ?? 24,
+        scale: ScriptStorage.get<number>(KEY_SCREENSHOT_SCALE) || 2,
+        format: ScriptStorage.get<ScreenshotFormat>(KEY_SCREENSHOT_FORMAT) || 'png',
+        segmentHeight: (ScriptStorage.get<boolean>(KEY_SCREENSHOT_SPLIT) ?? false)
+            ? ScriptStorage.get<number>(KEY_SCREENSHOT_SEGMENT_HEIGHT) || 2000
+            : 0,
+    }
+}
+
+/**
+ * An image has no folder for `separate_files` to write into,
+ * images are embedded instead
+ */
+function getScreenshotImageStrategy(): ImageHandlingStrategy {
+    const strategy = (ScriptStorage.get<string>(KEY_IMAGE_HANDLING_STRATEGY) || 'embed_base64') as ImageHandlingStrategy
+    return strategy === 'separate_files' ? 'embed_base64' : strategy
+}
+
+/**
+ * Download a single image as is, or the numbered segments in a ZIP
+ */
+async function downloadImages(fileName: string, images: Blob[]) {
+    if (images.length === 1) {
+        downloadFile(fileName, images[0].type, images[0])
+        return
+    }
+
+    const zip = new JSZip()
+    addImageSegments(zip, fileName, images)
+    const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })
+    downloadFile(fileName.replace(/\.[^.]+$/, '.zip'), 'application/zip', blob)
+}
+
+/**
+ * Add the images of one conversation, numbered when it was split
+ */
+function addImageSegments(zip: JSZip, fileName: string, images: Blob[]) {
+    if (images.length === 1) {
+        zip.file(fileName, images[0])
+        return
+    }
+    const baseName = fileName.replace(/\.[^.]+$/, '')
+    const ext = fileName.slice(baseName.length)
+    const digits = String(images.length).length
+    images.forEach((image, index) => {
+        zip.file(`${baseName}-${String(index + 1).padStart(digits, '0')}${ext}`, image)
+    })
+}
+
+/**
+ * Render an exported HTML page in an offscreen frame and rasterize it.
+ * Pages taller than the canvas limit are split into several images,
+ * cut between messages where possible.
+ */
+export async function renderHtmlToImages(html: string, options: ScreenshotOptions): Promise<Blob[]> {
+    const { width, padding, scale, format, segmentHeight } = options
+    const theme = options.theme === 'auto' ? (getColorScheme() || 'light') : options.theme
+
+    const iframe = document.createElement('iframe')
+    iframe.style.cssText = `position: fixed; left: ${-width - 100}px; top: 0; width: ${width}px; height: 100px; border: 0;`
+    iframe.srcdoc = await tryInlineOfflineAssets(html)
+
+    const loaded = new Promise(resolve => iframe.addEventListener('load', resolve, { once: true }))
+    document.body.appendChild(iframe)
+
+    try {
+        await loaded
+        const doc = iframe.contentDocument
+        if (!doc) throw new Error('Failed to create the render frame.')
+
+        doc.documentElement.setAttribute('data-theme', theme)
+        const style = doc.createElement('style')
+        style.textContent = `
+            body { margin: 0 !important; padding: ${padding}px !important; }
+            .toggle, .archive-nav { display: none !important; }
+        `
+        doc.head.appendChild(style)
+
+        // Give highlight.js and KaTeX a moment to render
+        await doc.fonts.ready
+        await sleep(500)
+
+        const root = doc.body
+        const totalHeight = root.scrollHeight
+        iframe.style.height = `${totalHeight}px`
+
+        const rootRect = root.getBoundingClientRect()
+        const boundaries = Array.from(doc.querySelectorAll('.conversation-item'))
+            .map(el => el.getBoundingClientRect().top - rootRect.top)
+        const maxHeight = getMaxSegmentHeight(width, scale, segmentHeight)
+
+        const images: Blob[] = []
+        for (const segment of splitIntoSegments(boundaries, totalHeight, maxHeight)) {
+            const canvas = await html2canvas(root, {
+                scale,
+                useCORS: true,
+                backgroundColor: theme === 'dark' ? '#212121' : '#ffffff',
+                windowWidth: width,
+                windowHeight: totalHeight,
+                x: rootRect.left,
+                y: rootRect.top + segment.top,
+                width,
+                height: segment.height,
+            })
+            images.push(await canvasToBlob(canvas, ScreenshotMimeTypes[format], 0.92))
+        }
+        return images
+    }
+    finally {
+        iframe.remove()
+    }
+}
+
+/**
+ * The tallest segment in css pixels that fits the canvas limits,
+ * capped by the requested segment height
+ */
+function getMaxSegmentHeight(width: number, scale: number, segmentHeight: number) {
+    const limit = Math.min(MaxCanvasHeight / scale, MaxCanvasArea / (width * scale * scale))
+    return Math.floor(segmentHeight > 0 ? Math.min(segmentHeight, limit) : limit)
+}
+
+/**
+ * Split a page into segments no taller than `maxHeight`, cutting at the
+ * last boundary that fits. A single block taller than the limit is cut
+ * in the middle.
+ */
+export function splitIntoSegments(boundaries: number[], totalHeight: number, maxHeight: number): Array<{ top: number; height: number }> {
+    const cuts = [...new Set(boundaries.map(Math.floor))]
+        .filter(y => y > 0 && y < totalHeight)
+        .sort((a, b) => a - b)
+
+    const segments: Array<{ top: number; height: number }> = []
+    let top = 0
+    while (top < totalHeight) {
+        const limit = top + maxHeight
+        if (limit >= totalHeight) {
+            segments.push({ top, height: totalHeight - top })
+            break
+        }
+        const cut = cuts.filter(y => y > top && y <= limit).pop() ?? limit
+        segments.push({ top, height: cut - top })
+        top = cut
+    }
+    return segments
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            // Chromium returns an empty canvas when it exceeds the size limit
+            if (blob) resolve(blob)
+            else reject(new Error('Failed to encode the canvas, it may exceed the size limit.'))
+        }, type, quality)
+    })
+}
+
+/**
+ * Capture the conversation from the live ChatGPT page
+ */
+async function exportPageToPng(fileNameFormat: string, options: ScreenshotOptions) {
     const effect = new Effect()
 
     const thread = document.querySelector('#thread div:has(> [data-testid="conversation-turn-1"]')
@@ -73,10 +344,38 @@ export async function exportToPng(fileNameFormat: string) {
 
     const threadEl = thread as HTMLElement
 
+    const chatId = getChatIdFromUrl()
+    const selection = chatId ? getMessageSelection(chatId) : null
+    if (selection) {
+        effect.add(() => {
+            // Hide the turns that are not part of the message selection
+            const hidden = Array.from(threadEl.querySelectorAll<HTMLElement>('[data-testid^="conversation-turn-"]'))
+                .filter((turn) => {
+                    const messageIds = Array.from(turn.querySelectorAll('[data-message-id]'), el => el.getAttribute('data-message-id'))
+                    return !messageIds.some(id => id && selection.has(id))
+                })
+            hidden.forEach(turn => turn.style.setProperty('display', 'none', 'important'))
+            return () => hidden.forEach(turn => turn.style.removeProperty('display'))
+        })
+    }
+
     effect.run()
 
     await sleep(100)
 
+    if (options.segmentHeight > 0) {
+        let images: Blob[]
+        try {
+            images = await takePageSegments(threadEl, options)
+        }
+        finally {
+            effect.dispose()
+        }
+
+        await downloadImages(getFileNameWithFormat(fileNameFormat, options.format, { chatId: chatId || undefined }), images)
+        return true
+    }
+
     const passLimit = 10
     const takeScreenshot = async (width: number, height: number, additionalScale = 1, currentPass = 1): Promise<string | null> => {
         const ratio = window.devicePixelRatio || 1
@@ -103,7 +402,7 @@ export async function exportToPng(fileNameFormat: string) {
         const context = canvas?.getContext('2d')
         if (context) context.imageSmoothingEnabled = false
 
-        const dataUrl = canvas?.toDataURL('image/png', 1)
+        const dataUrl = canvas?.toDataURL(ScreenshotMimeTypes[options.format], options.format === 'png' ? 1 : 0.92)
             .replace(/^data:image\/[^;]/, 'data:application/octet-stream')
 
         /**
@@ -131,10 +430,45 @@ export async function exportToPng(fileNameFormat: string) {
         return false
     }
 
-    const chatId = getChatIdFromUrl() || undefined
-    const fileName = getFileNameWithFormat(fileNameFormat, 'png', { chatId })
+    const fileName = getFileNameWithFormat(fileNameFormat, options.format, { chatId: chatId || undefined })
     downloadUrl(fileName, dataUrl)
     window.URL.revokeObjectURL(dataUrl)
 
     return true
 }
+
+/**
+ * Capture the live thread as fixed-height tiles at full resolution,
+ * cut between conversation turns where possible
+ */
+async function takePageSegments(threadEl: HTMLElement, options: ScreenshotOptions): Promise<Blob[]> {
+    const ratio = window.devicePixelRatio || 1
+    const scale = ratio * 2 // scale up to 2x to avoid blurry images
+    const width = threadEl.scrollWidth
+    const totalHeight = threadEl.scrollHeight
+
+    const bounds = threadEl.getBoundingClientRect()
+    const boundaries = Array.from(threadEl.querySelectorAll('[data-testid^="conversation-turn-"]'))
+        .map(el => el.getBoundingClientRect().top - bounds.top)
+    const maxHeight = getMaxSegmentHeight(width, scale, options.segmentHeight)
+
+    const images: Blob[] = []
+    for (const segment of splitIntoSegments(boundaries, totalHeight, maxHeight)) {
+        const canvas = await html2canvas(threadEl, {
+            scale,
+            useCORS: true,
+            scrollX: -window.scrollX,
+            scrollY: -window.scrollY,
+            windowWidth: width,
+            windowHeight: totalHeight,
+            ignoreElements: fnIgnoreElements,
+            // Crop in the same coordinates html2canvas uses for the element
+            x: bounds.left - window.scrollX,
+            y: bounds.top - window.scrollY + segment.top,
+            width,
+            height: segment.height,
+        })
+        images.push(await canvasToBlob(canvas, ScreenshotMimeTypes[options.format], 0.92))
+    }
+    return images
+}
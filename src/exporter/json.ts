@@ -1,10 +1,18 @@
 import JSZip from 'jszip'
-import { fetchConversation, getCurrentChatId, processConversation } from '../api'
+import { fetchConversation, getCurrentChatId, hasConversationContext, processConversation } from '../api'
+import { KEY_EXPORT_CONTEXT, KEY_FINETUNE_CONTEXT, KEY_FINETUNE_MAX_TOKENS, KEY_FINETUNE_TOOLS, KEY_FINETUNE_VALIDATION } from '../constants'
 import i18n from '../i18n'
 import { checkIfConversationStarted } from '../page'
-import { convertToOoba, convertToTavern } from '../utils/conversion'
+import { convertToAlpaca, convertToFineTune, convertToOoba, convertToShareGPT, convertToTavern, estimateTokens, splitTrainValidation } from '../utils/conversion'
 import { downloadFile, getFileNameWithFormat } from '../utils/download'
-import type { ApiConversationWithId } from '../api'
+import { applyMessageSelection } from '../utils/message-selection'
+import { ScriptStorage } from '../utils/storage'
+import { jsonlStringify, nonNullable } from '../utils/utils'
+import { getAuthorLabels } from './author'
+import { addProjectContextFiles } from './project'
+import type { ApiConversationWithId, ApiProjectDetail, ConversationContext, ConversationResult } from '../api'
+import type { ExportMeta } from '../ui/SettingContext'
+import type { FineTuneExample } from '../utils/conversion'
 
 export async function exportToJson(fileNameFormat: string) {
     if (!checkIfConversationStarted()) {
@@ -13,14 +21,14 @@ export async function exportToJson(fileNameFormat: string) {
     }
 
     const chatId = await getCurrentChatId()
-    const rawConversation = await fetchConversation(chatId, false)
+    const rawConversation = applyMessageSelection(await fetchConversation(chatId, false))
     const conversation = processConversation(rawConversation)
 
     const fileName = getFileNameWithFormat(fileNameFormat, 'json', { title: conversation.title, chatId })
     /**
      * The official format is just an array of the API response.
      */
-    const content = conversationToJson([rawConversation])
+    const content = conversationToJson([withContext(rawConversation, conversation)])
     downloadFile(fileName, 'application/json', content)
 
     return true
@@ -33,11 +41,11 @@ export async function exportToTavern(fileNameFormat: string) {
     }
 
     const chatId = await getCurrentChatId()
-    const rawConversation = await fetchConversation(chatId, false)
+    const rawConversation = applyMessageSelection(await fetchConversation(chatId, false))
     const conversation = processConversation(rawConversation)
 
     const fileName = getFileNameWithFormat(`${fileNameFormat}.tavern`, 'jsonl', { title: conversation.title, chatId })
-    const content = convertToTavern(conversation)
+    const content = convertToTavern(conversation, await getAuthorLabels(conversation))
     downloadFile(fileName, 'application/json-lines', content)
 
     return true
@@ -50,7 +58,7 @@ export async function exportToOoba(fileNameFormat: string) {
     }
 
     const chatId = await getCurrentChatId()
-    const rawConversation = await fetchConversation(chatId, false)
+    const rawConversation = applyMessageSelection(await fetchConversation(chatId, false))
     const conversation = processConversation(rawConversation)
 
     const fileName = getFileNameWithFormat(`${fileNameFormat}.ooba`, 'json', { title: conversation.title, chatId })
@@ -60,6 +68,63 @@ export async function exportToOoba(fileNameFormat: string) {
     return true
 }
 
+export async function exportToShareGPT(fileNameFormat: string) {
+    if (!checkIfConversationStarted()) {
+        alert(i18n.t('Please start a conversation first'))
+        return false
+    }
+
+    const chatId = await getCurrentChatId()
+    const rawConversation = applyMessageSelection(await fetchConversation(chatId, false))
+    const conversation = processConversation(rawConversation)
+
+    const fileName = getFileNameWithFormat(`${fileNameFormat}.sharegpt`, 'json', { title: conversation.title, chatId })
+    // A list even for one conversation, so single and bulk exports load the same way
+    const content = JSON.stringify([convertToShareGPT(conversation)].filter(nonNullable), null, 2)
+    downloadFile(fileName, 'application/json', content)
+
+    return true
+}
+
+export async function exportToAlpaca(fileNameFormat: string) {
+    if (!checkIfConversationStarted()) {
+        alert(i18n.t('Please start a conversation first'))
+        return false
+    }
+
+    const chatId = await getCurrentChatId()
+    const rawConversation = applyMessageSelection(await fetchConversation(chatId, false))
+    const conversation = processConversation(rawConversation)
+
+    const fileName = getFileNameWithFormat(`${fileNameFormat}.alpaca`, 'json', { title: conversation.title, chatId })
+    const content = JSON.stringify(convertToAlpaca(conversation), null, 2)
+    downloadFile(fileName, 'application/json', content)
+
+    return true
+}
+
+export async function exportToFineTune(fileNameFormat: string) {
+    if (!checkIfConversationStarted()) {
+        alert(i18n.t('Please start a conversation first'))
+        return false
+    }
+
+    const chatId = await getCurrentChatId()
+    const rawConversation = applyMessageSelection(await fetchConversation(chatId, false))
+    const conversation = processConversation(rawConversation)
+
+    const { example, skipped } = conversationToFineTune(conversation)
+    if (!example) {
+        alert(getFineTuneSkippedMessage(skipped === 'empty' ? 1 : 0, skipped === 'budget' ? 1 : 0))
+        return false
+    }
+
+    const fileName = getFileNameWithFormat(`${fileNameFormat}.finetune`, 'jsonl', { title: conversation.title, chatId })
+    downloadFile(fileName, 'application/json-lines', jsonlStringify([example]))
+
+    return true
+}
+
 export async function exportAllToOfficialJson(_fileNameFormat: string, apiConversations: ApiConversationWithId[]) {
     const content = conversationToJson(apiConversations)
     downloadFile('chatgpt-export.json', 'application/json', content)
@@ -67,7 +132,7 @@ export async function exportAllToOfficialJson(_fileNameFormat: string, apiConver
     return true
 }
 
-export async function exportAllToJson(fileNameFormat: string, apiConversations: ApiConversationWithId[]) {
+export async function exportAllToJson(fileNameFormat: string, apiConversations: ApiConversationWithId[], _metaList?: ExportMeta[], project?: ApiProjectDetail | null) {
     const zip = new JSZip()
     const filenameMap = new Map<string, number>()
     const conversations = apiConversations.map(x => ({
@@ -89,10 +154,12 @@ export async function exportAllToJson(fileNameFormat: string, apiConversations:
         else {
             filenameMap.set(fileName, 1)
         }
-        const content = conversationToJson(rawConversation)
+        const content = conversationToJson(withContext(rawConversation, conversation))
         zip.file(fileName, content)
     })
 
+    addProjectContextFiles(zip, project)
+
     const blob = await zip.generateAsync({
         type: 'blob',
         compression: 'DEFLATE',
@@ -105,6 +172,85 @@ export async function exportAllToJson(fileNameFormat: string, apiConversations:
     return true
 }
 
+export async function exportAllToShareGPT(_fileNameFormat: string, apiConversations: ApiConversationWithId[]) {
+    const records = apiConversations
+        .map(x => convertToShareGPT(processConversation(x)))
+        .filter(nonNullable)
+    downloadFile('chatgpt-export-sharegpt.json', 'application/json', JSON.stringify(records, null, 2))
+
+    return true
+}
+
+export async function exportAllToAlpaca(_fileNameFormat: string, apiConversations: ApiConversationWithId[]) {
+    const records = apiConversations.flatMap(x => convertToAlpaca(processConversation(x)))
+    downloadFile('chatgpt-export-alpaca.json', 'application/json', JSON.stringify(records, null, 2))
+
+    return true
+}
+
+/**
+ * Export all conversations as OpenAI fine-tuning data, with a
+ * separate validation file when a validation split is set
+ */
+export async function exportAllToFineTune(_fileNameFormat: string, apiConversations: ApiConversationWithId[]) {
+    const results = apiConversations.map(x => ({ id: x.id, ...conversationToFineTune(processConversation(x)) }))
+    const examples = results.filter((x): x is { id: string; example: FineTuneExample } => x.example !== null)
+
+    const empty = results.filter(x => x.skipped === 'empty').length
+    const overBudget = results.filter(x => x.skipped === 'budget').length
+    if (empty + overBudget > 0) alert(getFineTuneSkippedMessage(empty, overBudget))
+    if (examples.length === 0) return false
+
+    const ratio = (ScriptStorage.get<number>(KEY_FINETUNE_VALIDATION) ?? 0) / 100
+    const { train, validation, validationEmpty } = splitTrainValidation(examples, ratio, x => x.id)
+    if (validationEmpty) alert(i18n.t('Fine-tuning Validation Empty'))
+    if (validation.length === 0) {
+        downloadFile('chatgpt-export-finetune.jsonl', 'application/json-lines', jsonlStringify(train.map(x => x.example)))
+        return true
+    }
+
+    const zip = new JSZip()
+    zip.file('train.jsonl', jsonlStringify(train.map(x => x.example)))
+    zip.file('validation.jsonl', jsonlStringify(validation.map(x => x.example)))
+    const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })
+    downloadFile('chatgpt-export-finetune.zip', 'application/zip', blob)
+
+    return true
+}
+
+/**
+ * The example is null when the conversation has no response
+ * or is over the token budget, `skipped` tells which
+ */
+function conversationToFineTune(conversation: ConversationResult): { example: FineTuneExample | null; skipped?: 'empty' | 'budget' } {
+    const example = convertToFineTune(conversation, {
+        includeContext: ScriptStorage.get<boolean>(KEY_FINETUNE_CONTEXT) ?? true,
+        includeTools: ScriptStorage.get<boolean>(KEY_FINETUNE_TOOLS) ?? false,
+    })
+    if (!example) return { example: null, skipped: 'empty' }
+
+    const maxTokens = ScriptStorage.get<number>(KEY_FINETUNE_MAX_TOKENS) ?? 0
+    if (maxTokens > 0 && estimateTokens(example) > maxTokens) return { example: null, skipped: 'budget' }
+    return { example }
+}
+
+function getFineTuneSkippedMessage(empty: number, overBudget: number): string {
+    return [
+        empty > 0 ? i18n.t('Fine-tuning Skipped Empty', { count: empty }) : '',
+        overBudget > 0 ? i18n.t('Fine-tuning Skipped Budget', { count: overBudget }) : '',
+    ].filter(Boolean).join('\n')
+}
+
+/**
+ * Add the custom instructions and memory as a `context` field
+ * when "Export Context" is enabled
+ */
+function withContext(rawConversation: ApiConversationWithId, conversation: ConversationResult): ApiConversationWithId & { context?: ConversationContext } {
+    const exportContext = ScriptStorage.get<boolean>(KEY_EXPORT_CONTEXT) ?? false
+    if (!exportContext || !hasConversationContext(conversation.context)) return rawConversation
+    return { ...rawConversation, context: conversation.context }
+}
+
 function conversationToJson(conversation: ApiConversationWithId | ApiConversationWithId[]) {
     return JSON.stringify(conversation)
 }
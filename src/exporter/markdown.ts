@@ -1,17 +1,28 @@
 import JSZip from 'jszip'
-import { fetchConversation, getCurrentChatId, processConversation } from '../api'
-import { KEY_IMAGE_CUSTOM_MARKER, KEY_IMAGE_HANDLING_STRATEGY, KEY_IMAGE_INCLUDE_METADATA, KEY_IMAGE_MAX_SIZE, KEY_IMAGE_QUALITY, KEY_TIMESTAMP_24H, KEY_TIMESTAMP_ENABLED, KEY_TIMESTAMP_MARKDOWN, baseUrl } from '../constants'
+import { fetchConversation, getCurrentChatId, hasConversationContext, processConversation } from '../api'
+import { KEY_EXPORT_ATTACHMENTS, KEY_EXPORT_AUDIO, KEY_EXPORT_CONTEXT, KEY_EXPORT_FULL_TREE, KEY_EXPORT_TOOL_CALLS, KEY_IMAGE_HANDLING_STRATEGY, KEY_TEMPLATE_MARKDOWN, KEY_TIMESTAMP_24H, KEY_TIMESTAMP_ENABLED, KEY_TIMESTAMP_MARKDOWN, baseUrl } from '../constants'
 import i18n from '../i18n'
 import { checkIfConversationStarted } from '../page'
 import { downloadFile, getFileNameWithFormat } from '../utils/download'
 import { fromMarkdown, toMarkdown } from '../utils/markdown'
+import { applyMessageSelection } from '../utils/message-selection'
 import { ScriptStorage } from '../utils/storage'
+import { renderTemplate } from '../utils/template'
 import { standardizeLineBreaks } from '../utils/text'
 import { dateStr, timestamp, unixTimestampToISOString } from '../utils/utils'
-import { getImageHandler, initializeImageHandler } from './image-handler'
-import type { ExportFile, ExportMetadata, ImageContext, ProcessedImage } from './image-types'
-import type { ApiConversationWithId, Citation, ConversationNodeMessage, ConversationResult } from '../api'
+import { downloadAttachments, getAttachmentFiles, getAttachmentMetadata, getAudioAttachment, getMessageUploads, replaceSandboxLinks } from './attachments'
+import { formatAudioSegment, getAudioClip, getAudioSegment } from './audio'
+import { getAuthorLabels, transformAuthor } from './author'
+import { getImageHandler, getImageSettings, initializeImageHandler } from './image-handler'
+import { addProjectContextFiles } from './project'
+import { formatMessageTime, getConversationTemplateData, getMessageTemplateData, getUsableTemplate, transformAttachments, transformContext } from './template-data'
+import { isExportableToolCall, isExportableToolResult, transformBrowsingCall, transformCode, transformToolCall } from './tool-call'
+import type { ExportedAttachment } from './attachments'
+import type { ExportFile, ExportMetadata, ImageContext, ImageHandlingStrategy, ProcessedImage } from './image-types'
+import type { TemplateFormat } from './template-data'
+import type { ApiConversationWithId, ApiProjectDetail, Citation, ConversationNodeMessage, ConversationResult } from '../api'
 import type { ExportMeta } from '../ui/SettingContext'
+import type { TemplateData } from '../utils/template'
 
 export async function exportToMarkdown(fileNameFormat: string, metaList: ExportMeta[]) {
     if (!checkIfConversationStarted()) {
@@ -19,37 +30,42 @@ export async function exportToMarkdown(fileNameFormat: string, metaList: ExportM
         return false
     }
 
-    const chatId = await getCurrentChatId()
-    const rawConversation = await fetchConversation(chatId, true)
-    const conversation = processConversation(rawConversation)
-
     // Initialize image handler with current settings
     const imageHandlingStrategy = ScriptStorage.get<string>(KEY_IMAGE_HANDLING_STRATEGY) || 'embed_base64'
     initializeImageHandler(imageHandlingStrategy as any)
 
-    const { markdown, exportFiles, imageMetadata } = await conversationToMarkdown(conversation, metaList)
-
-    // Handle ZIP creation for Option 3
-    if (imageHandlingStrategy === 'separate_files' && exportFiles && exportFiles.length > 0) {
-        // Create ZIP with content and images
-        const { createExportZip } = await import('./zip-packager')
-
-        const metadata = imageMetadata
-        if (metadata) {
-            metadata.conversationTitle = conversation.title
-            metadata.settings = {
-                imageQuality: ScriptStorage.get<number>(KEY_IMAGE_QUALITY) || 85,
-                maxImageSize: ScriptStorage.get<number>(KEY_IMAGE_MAX_SIZE) || 2048,
-                includeImageMetadata: ScriptStorage.get<boolean>(KEY_IMAGE_INCLUDE_METADATA) || true,
-                customMarkerText: ScriptStorage.get<string>(KEY_IMAGE_CUSTOM_MARKER) || '[Image Omitted]',
-            }
+    const chatId = await getCurrentChatId()
+    // Linking keeps the original pointers, no need to download the images
+    const rawConversation = applyMessageSelection(await fetchConversation(chatId, imageHandlingStrategy !== 'link_original'))
+    const fullTree = ScriptStorage.get<boolean>(KEY_EXPORT_FULL_TREE) ?? false
+    const conversation = processConversation(rawConversation, { fullTree })
+
+    const exportAttachments = ScriptStorage.get<boolean>(KEY_EXPORT_ATTACHMENTS) ?? false
+    const exportAudio = ScriptStorage.get<boolean>(KEY_EXPORT_AUDIO) ?? false
+    const attachments = exportAttachments || exportAudio
+        ? await downloadAttachments(conversation, { files: exportAttachments, audio: exportAudio })
+        : []
+    const attachmentFiles = getAttachmentFiles(attachments)
+
+    const { markdown, exportFiles, imageMetadata } = await conversationToMarkdown(conversation, metaList, attachments)
+
+    // Handle ZIP creation for Option 3, or when attachments were downloaded
+    if ((imageHandlingStrategy === 'separate_files' && exportFiles && exportFiles.length > 0) || attachmentFiles.length > 0) {
+        // Create ZIP with content, images and attachments
+        const { createExportMetadata, createExportZip } = await import('./zip-packager')
+
+        const metadata = imageMetadata ?? createExportMetadata(conversation.title, imageHandlingStrategy as ImageHandlingStrategy)
+        metadata.conversationTitle = conversation.title
+        metadata.settings = getImageSettings()
+        if (attachments.length > 0) {
+            metadata.attachments = getAttachmentMetadata(attachments)
         }
 
         const zipBlob = await createExportZip(
             `${conversation.title}.md`,
             markdown,
-            exportFiles,
-            metadata!,
+            [...(exportFiles ?? []), ...attachmentFiles],
+            metadata,
             'text/markdown',
         )
 
@@ -71,14 +87,17 @@ export async function exportToMarkdown(fileNameFormat: string, metaList: ExportM
     return true
 }
 
-export async function exportAllToMarkdown(fileNameFormat: string, apiConversations: ApiConversationWithId[], metaList?: ExportMeta[]) {
+export async function exportAllToMarkdown(fileNameFormat: string, apiConversations: ApiConversationWithId[], metaList?: ExportMeta[], project?: ApiProjectDetail | null) {
     // Initialize image handler with current settings
     const imageHandlingStrategy = ScriptStorage.get<string>(KEY_IMAGE_HANDLING_STRATEGY) || 'embed_base64'
     initializeImageHandler(imageHandlingStrategy as any)
 
     const zip = new JSZip()
     const filenameMap = new Map<string, number>()
-    const conversations = apiConversations.map(x => processConversation(x))
+    const imageFiles: ExportFile[] = []
+    const imageMetadataList: ExportMetadata[] = []
+    const fullTree = ScriptStorage.get<boolean>(KEY_EXPORT_FULL_TREE) ?? false
+    const conversations = apiConversations.map(x => processConversation(x, { fullTree }))
 
     for (const conversation of conversations) {
         let fileName = getFileNameWithFormat(fileNameFormat, 'md', {
@@ -95,17 +114,24 @@ export async function exportAllToMarkdown(fileNameFormat: string, apiConversatio
         else {
             filenameMap.set(fileName, 1)
         }
-        const { markdown } = await conversationToMarkdown(conversation, metaList)
+        const { markdown, exportFiles, imageMetadata } = await conversationToMarkdown(conversation, metaList)
         zip.file(fileName, markdown)
+        // Documents are at the root, so `images/...` links resolve against the shared folder
+        imageFiles.push(...(exportFiles ?? []))
+        if (imageMetadata) imageMetadataList.push(imageMetadata)
     }
 
-    const blob = await zip.generateAsync({
-        type: 'blob',
-        compression: 'DEFLATE',
-        compressionOptions: {
-            level: 9,
-        },
-    })
+    addProjectContextFiles(zip, project)
+
+    const { ZipPackager, mergeExportMetadata } = await import('./zip-packager')
+    const packager = new ZipPackager(zip)
+    if (imageHandlingStrategy === 'separate_files' && imageMetadataList.length > 0) {
+        const metadata = mergeExportMetadata(project?.gizmo.display.name ?? 'Export All', imageHandlingStrategy, imageMetadataList)
+        metadata.settings = getImageSettings()
+        packager.addFiles(imageFiles).setMetadata(metadata)
+    }
+
+    const blob = await packager.generateZip()
     downloadFile('chatgpt-export-markdown.zip', 'application/zip', blob)
 
     return true
@@ -162,6 +188,11 @@ function extractImagesFromConversation(conversation: ConversationResult): Array<
                         contentType: 'multimodal_text',
                         author: message.author,
                         timestamp: message.create_time,
+                        metadata: {
+                            width: (part as any).width,
+                            height: (part as any).height,
+                            prompt: (part as any).metadata?.dalle?.prompt,
+                        },
                     }
 
                     images.push({
@@ -176,8 +207,34 @@ function extractImagesFromConversation(conversation: ConversationResult): Array<
     return images
 }
 
-async function conversationToMarkdown(conversation: ConversationResult, metaList?: ExportMeta[]) {
-    const { id, title, model, modelSlug, createTime, updateTime, conversationNodes } = conversation
+/**
+ * The user template that reproduces the built-in layout,
+ * used as a starting point in the settings
+ */
+export const defaultMarkdownTemplate = `{{metadata}}# {{title}}
+
+{{context}}{{#messages}}#### {{author}}:
+{{time_html}}{{content}}
+
+{{/messages}}`
+
+const MarkdownFormat: TemplateFormat = {
+    attachments: (items) => {
+        const list = items.map(({ name, path }) => {
+            return path
+                ? `- [${name}](${encodeURI(path)})`
+                : `- ${name} (not downloaded)`
+        })
+        return `\n\nAttachments:\n${list.join('\n')}`
+    },
+    context: (sections) => {
+        const items = sections.map(([name, text]) => `**${name}**\n\n${text}`)
+        return `<details>\n<summary>Context</summary>\n\n${items.join('\n\n')}\n\n</details>`
+    },
+}
+
+async function conversationToMarkdown(conversation: ConversationResult, metaList?: ExportMeta[], attachments: ExportedAttachment[] = []) {
+    const { id, title, model, modelSlug, createTime, updateTime, conversationNodes, context } = conversation
     const source = `${baseUrl}/c/${id}`
 
     const _metaList = metaList
@@ -203,6 +260,8 @@ async function conversationToMarkdown(conversation: ConversationResult, metaList
     const enableTimestamp = ScriptStorage.get<boolean>(KEY_TIMESTAMP_ENABLED) ?? false
     const timeStampMarkdown = ScriptStorage.get<boolean>(KEY_TIMESTAMP_MARKDOWN) ?? false
     const timeStamp24H = ScriptStorage.get<boolean>(KEY_TIMESTAMP_24H) ?? false
+    const exportAudio = ScriptStorage.get<boolean>(KEY_EXPORT_AUDIO) ?? false
+    const exportToolCalls = ScriptStorage.get<boolean>(KEY_EXPORT_TOOL_CALLS) ?? false
 
     // Get image handler and extract all images
     const imageHandler = getImageHandler()
@@ -219,17 +278,20 @@ async function conversationToMarkdown(conversation: ConversationResult, metaList
         imageMetadata = (imageResult as any).metadata
     }
 
+    const labels = await getAuthorLabels(conversation)
     const content = []
+    const messages: TemplateData[] = []
     let imageIndex = 0
 
-    for (const { message } of conversationNodes) {
+    for (const { message, variant } of conversationNodes) {
         if (!message || !message.content) continue
 
         // ChatGPT is talking to tool
-        if (message.recipient !== 'all') continue
+        const isToolCall = message.recipient !== 'all'
+        if (isToolCall && !(exportToolCalls && isExportableToolCall(message))) continue
 
         // Skip tool's intermediate message.
-        if (message.author.role === 'tool') {
+        if (message.author.role === 'tool' && !(exportToolCalls && isExportableToolResult(message))) {
             if (
                 // HACK: we special case the content_type 'multimodal_text' here because it is used by
                 // the dalle tool to return the image result, and we do want to show that.
@@ -249,12 +311,13 @@ async function conversationToMarkdown(conversation: ConversationResult, metaList
         let timestampHtml = ''
         if (showTimestamp) {
             const date = new Date(timestamp * 1000)
-            // format: 20:12 / 08:12 PM
-            const conversationTime = date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: !timeStamp24H })
+            const conversationTime = formatMessageTime(date, timeStamp24H)
             timestampHtml = `<time datetime="${date.toISOString()}" title="${date.toLocaleString()}">${conversationTime}</time>\n\n`
         }
 
-        const author = transformAuthor(message.author)
+        const author = transformAuthor(message.author, labels)
+        // Label alternative branches in full tree mode, eg. `ChatGPT (Response 2 of 3)`
+        const authorLabel = variant ? `${author} (${variant.label})` : author
 
         const postSteps: Array<(input: string) => string> = []
         if (message.author.role === 'assistant') {
@@ -294,15 +357,41 @@ async function conversationToMarkdown(conversation: ConversationResult, metaList
             })
         }
         const postProcess = (input: string) => postSteps.reduce((acc, fn) => fn(acc), input)
-        const messageContent = await transformContent(message.content, message.metadata, postProcess, processedImages, imageIndex)
+        const messageContent = replaceSandboxLinks(
+            // Tool calls are markdown already, and reformatting could break the code
+            isToolCall
+                ? transformToolCall(message)
+                : await transformContent(message.content, message.metadata, postProcess, processedImages, imageIndex, attachments, exportAudio),
+            attachments,
+            message.id,
+        ) + transformAttachments(getMessageUploads(attachments, message.id), MarkdownFormat)
 
         // Update image index for next message
         imageIndex += countImagesInMessage(message)
 
-        content.push(`#### ${author}:\n${timestampHtml}${messageContent}`)
+        content.push(`#### ${authorLabel}:\n${timestampHtml}${messageContent}`)
+        messages.push(getMessageTemplateData(message, {
+            index: messages.length + 1,
+            author: authorLabel,
+            content: messageContent,
+            timeHtml: timestampHtml,
+            hour24: timeStamp24H,
+        }))
     }
 
-    const markdown = `${frontMatter}# ${title}\n\n${content.join('\n\n')}`
+    const exportContext = ScriptStorage.get<boolean>(KEY_EXPORT_CONTEXT) ?? false
+    const contextMarkdown = exportContext && hasConversationContext(context)
+        ? `${transformContext(context, MarkdownFormat)}\n\n`
+        : ''
+
+    const template = getUsableTemplate(ScriptStorage.get<string>(KEY_TEMPLATE_MARKDOWN) ?? '')
+    const markdown = template.trim()
+        ? renderTemplate(template, {
+            ...getConversationTemplateData(conversation, { source, content: content.join('\n\n'), messages }),
+            metadata: frontMatter,
+            context: contextMarkdown,
+        })
+        : `${frontMatter}# ${title}\n\n${contextMarkdown}${content.join('\n\n')}`
 
     return {
         markdown,
@@ -311,17 +400,19 @@ async function conversationToMarkdown(conversation: ConversationResult, metaList
     }
 }
 
-function transformAuthor(author: ConversationNodeMessage['author']): string {
-    switch (author.role) {
-        case 'assistant':
-            return 'ChatGPT'
-        case 'user':
-            return 'You'
-        case 'tool':
-            return `Plugin${author.name ? ` (${author.name})` : ''}`
-        default:
-            return author.role
+/**
+ * Render a processed image. With `link_original` the image is
+ * a plain link, since the url may expire or need a login.
+ */
+function transformImage(image: ProcessedImage): string {
+    const alt = (image.metadata?.altText || 'image').replace(/[\n[\]]/g, ' ')
+    if (getImageHandler().getStrategy() === 'link_original') {
+        const expiresAt = image.metadata?.expiresAt
+        return expiresAt
+            ? `[${alt}](${image.content}) (link expires ${expiresAt})`
+            : `[${alt}](${image.content})`
     }
+    return `![${alt}](${image.content})`
 }
 
 /**
@@ -382,12 +473,14 @@ async function transformContent(
     postProcess: (input: string) => string,
     processedImages: ProcessedImage[],
     imageStartIndex: number,
+    attachments: ExportedAttachment[],
+    exportAudio: boolean,
 ) {
     switch (content.content_type) {
         case 'text':
             return postProcess(content.parts?.join('\n') || '')
         case 'code':
-            return `Code:\n\`\`\`\n${content.text}\n\`\`\`` || ''
+            return transformCode(content)
         case 'execution_output':
             if (metadata?.aggregate_result?.messages) {
                 const imageMessages = metadata.aggregate_result.messages.filter(msg => msg.message_type === 'image')
@@ -397,7 +490,7 @@ async function transformContent(
                         const processedImage = processedImages[globalIndex]
 
                         if (processedImage && processedImage.content) {
-                            return `![image](${processedImage.content})`
+                            return transformImage(processedImage)
                         }
                         else {
                             return `[IMAGE_${globalIndex}]`
@@ -408,10 +501,12 @@ async function transformContent(
                 }
             }
             return postProcess(`Result:\n\`\`\`\n${content.text}\n\`\`\`` || '')
-        case 'tether_quote':
-            return postProcess(`> ${content.title || content.text || ''}`)
+        case 'tether_quote': {
+            const title = content.title || content.text || ''
+            return postProcess(`> ${content.url ? `[${title || content.url}](${content.url})` : title}`)
+        }
         case 'tether_browsing_code':
-            return postProcess('') // TODO: implement
+            return transformBrowsingCall(content, metadata)
         case 'tether_browsing_display': {
             const metadataList = metadata?._cite_metadata?.metadata_list
             if (Array.isArray(metadataList) && metadataList.length > 0) {
@@ -432,16 +527,25 @@ async function transformContent(
                     const processedImage = processedImages[globalImageIndex]
 
                     if (processedImage && processedImage.content) {
-                        return `![image](${processedImage.content})`
+                        return transformImage(processedImage)
                     }
 
                     return `[IMAGE_${globalImageIndex}]`
                 }
                 if (typeof part === 'object' && 'content_type' in part && part.content_type === 'audio_transcription') {
-                    return `[audio] ${(part as any).text}`
+                    // eg. `[audio 00:03.2–00:07.9]`
+                    const segment = exportAudio ? getAudioSegment(content.parts, partIndex) : null
+                    const label = segment ? `audio ${formatAudioSegment(segment)}` : 'audio'
+                    return `[${label}] ${(part as any).text}`
+                }
+                if (typeof part === 'object' && 'content_type' in part && (part.content_type === 'audio_asset_pointer' || part.content_type === 'real_time_user_audio_video_asset_pointer')) {
+                    const clip = exportAudio ? getAudioClip(part) : null
+                    const audio = clip && getAudioAttachment(attachments, clip.pointer)
+                    if (!audio) return null
+                    return audio.path
+                        ? `[Audio: ${audio.name}](${encodeURI(audio.path)})`
+                        : `[Audio: ${audio.name} (not downloaded)]`
                 }
-                if (typeof part === 'object' && 'content_type' in part && part.content_type === 'audio_asset_pointer') return null
-                if (typeof part === 'object' && 'content_type' in part && part.content_type === 'real_time_user_audio_video_asset_pointer') return null
                 return postProcess('[Unsupported multimodal content]')
             }) || []
 
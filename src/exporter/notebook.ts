@@ -0,0 +1,229 @@
+import JSZip from 'jszip'
+import { fetchConversation, getCurrentChatId, processConversation } from '../api'
+import { baseUrl } from '../constants'
+import i18n from '../i18n'
+import { checkIfConversationStarted } from '../page'
+import { downloadFile, getFileNameWithFormat } from '../utils/download'
+import { applyMessageSelection } from '../utils/message-selection'
+import { getCodeLanguage } from '../utils/text'
+import { getAuthorLabels, transformAuthor } from './author'
+import type { ApiConversationWithId, ConversationNodeMessage, ConversationResult } from '../api'
+
+type NotebookOutput =
+    | { output_type: 'stream'; name: 'stdout' | 'stderr'; text: string[] }
+    | { output_type: 'display_data'; data: Record<string, string | string[]>; metadata: Record<string, unknown> }
+
+interface NotebookCell {
+    cell_type: 'markdown' | 'code'
+    metadata: Record<string, unknown>
+    source: string[]
+    execution_count?: number | null
+    outputs?: NotebookOutput[]
+}
+
+/**
+ * A Jupyter notebook in the nbformat 4 schema
+ * See https://nbformat.readthedocs.io/en/latest/format_description.html
+ */
+interface Notebook {
+    nbformat: 4
+    nbformat_minor: 4
+    metadata: Record<string, unknown>
+    cells: NotebookCell[]
+}
+
+// The code interpreter prints this marker where a figure was shown
+const ImageDisplayedRegex = /\n?<<ImageDisplayed>>/g
+const DataUrlRegex = /^data:(image\/[\w+.-]+);base64,(.+)$/
+
+export async function exportToNotebook(fileNameFormat: string) {
+    if (!checkIfConversationStarted()) {
+        alert(i18n.t('Please start a conversation first'))
+        return false
+    }
+
+    const chatId = await getCurrentChatId()
+    // Figures are embedded in the notebook, so the images are always downloaded
+    const rawConversation = applyMessageSelection(await fetchConversation(chatId, true))
+    const conversation = processConversation(rawConversation)
+
+    const fileName = getFileNameWithFormat(fileNameFormat, 'ipynb', {
+        title: conversation.title,
+        chatId,
+        createTime: conversation.createTime,
+        updateTime: conversation.updateTime,
+    })
+    const content = await conversationToNotebook(conversation)
+    downloadFile(fileName, 'application/x-ipynb+json', content)
+
+    return true
+}
+
+export async function exportAllToNotebook(fileNameFormat: string, apiConversations: ApiConversationWithId[]) {
+    const zip = new JSZip()
+    const filenameMap = new Map<string, number>()
+    const conversations = apiConversations.map(x => processConversation(x))
+
+    for (const conversation of conversations) {
+        let fileName = getFileNameWithFormat(fileNameFormat, 'ipynb', {
+            title: conversation.title,
+            chatId: conversation.id,
+            createTime: conversation.createTime,
+            updateTime: conversation.updateTime,
+        })
+        if (filenameMap.has(fileName)) {
+            const count = filenameMap.get(fileName) ?? 1
+            filenameMap.set(fileName, count + 1)
+            fileName = `${fileName.slice(0, -6)} (${count}).ipynb`
+        }
+        else {
+            filenameMap.set(fileName, 1)
+        }
+
+        zip.file(fileName, await conversationToNotebook(conversation))
+    }
+
+    const blob = await zip.generateAsync({
+        type: 'blob',
+        compression: 'DEFLATE',
+        compressionOptions: {
+            level: 9,
+        },
+    })
+    downloadFile('chatgpt-export-notebook.zip', 'application/zip', blob)
+
+    return true
+}
+
+/**
+ * Prose becomes markdown cells, python tool calls become code cells
+ * with the stdout and figures of their run attached
+ */
+async function conversationToNotebook(conversation: ConversationResult): Promise<string> {
+    const labels = await getAuthorLabels(conversation)
+    const source = `${baseUrl}/c/${conversation.id}`
+
+    const cells: NotebookCell[] = [
+        markdownCell(`# ${conversation.title}\n\n[${source}](${source})`),
+    ]
+    let executionCount = 0
+    let pendingCell: NotebookCell | null = null
+
+    conversation.conversationNodes.forEach(({ message }) => {
+        if (!message) return
+
+        const { content } = message
+        if (message.author.role === 'assistant' && message.recipient === 'python' && content.content_type === 'code') {
+            pendingCell = {
+                cell_type: 'code',
+                metadata: {},
+                source: toSource(content.text),
+                execution_count: ++executionCount,
+                outputs: [],
+            }
+            cells.push(pendingCell)
+            return
+        }
+
+        if (message.author.role === 'tool' && content.content_type === 'execution_output') {
+            if (pendingCell?.outputs && message.author.name === 'python') {
+                pendingCell.outputs.push(...getExecutionOutputs(message))
+                pendingCell = null
+            }
+            return
+        }
+
+        // Other tool traffic, eg. browsing, has no place in a notebook
+        if (message.recipient !== 'all') return
+
+        const text = transformContent(message)
+        if (!text) return
+        if (message.author.role === 'tool' && !text.includes('![')) return
+
+        cells.push(markdownCell(`**${transformAuthor(message.author, labels)}:**\n\n${text}`))
+    })
+
+    const notebook: Notebook = {
+        nbformat: 4,
+        nbformat_minor: 4,
+        metadata: {
+            kernelspec: {
+                name: 'python3',
+                display_name: 'Python 3',
+                language: 'python',
+            },
+            language_info: {
+                name: 'python',
+            },
+        },
+        cells,
+    }
+    return JSON.stringify(notebook, null, 1)
+}
+
+function getExecutionOutputs(message: ConversationNodeMessage): NotebookOutput[] {
+    const outputs: NotebookOutput[] = []
+    const result = message.metadata?.aggregate_result
+    const text = message.content.content_type === 'execution_output'
+        ? message.content.text.replace(ImageDisplayedRegex, '')
+        : ''
+
+    if (text.trim()) {
+        outputs.push({
+            output_type: 'stream',
+            name: result?.status === 'error' ? 'stderr' : 'stdout',
+            text: toSource(text),
+        })
+    }
+
+    result?.messages
+        ?.filter(msg => msg.message_type === 'image')
+        .forEach((msg) => {
+            const match = msg.image_url.match(DataUrlRegex)
+            outputs.push({
+                output_type: 'display_data',
+                // Images that could not be downloaded are linked instead
+                data: match
+                    ? { [match[1]]: match[2], 'text/plain': ['<Figure>'] }
+                    : { 'text/markdown': [`![image](${msg.image_url})`], 'text/plain': ['<Figure>'] },
+                metadata: {},
+            })
+        })
+
+    return outputs
+}
+
+function transformContent(message: ConversationNodeMessage): string {
+    const { content } = message
+    switch (content.content_type) {
+        case 'text':
+            return content.parts.join('\n')
+        case 'code':
+            return `\`\`\`${getCodeLanguage(content.language)}\n${content.text}\n\`\`\``
+        case 'multimodal_text':
+            return content.parts.map((part) => {
+                if (typeof part === 'string') return part
+                if (part.content_type === 'image_asset_pointer') return `![image](${(part as { asset_pointer: string }).asset_pointer})`
+                if (part.content_type === 'audio_transcription') return part.text
+                return ''
+            }).filter(Boolean).join('\n\n')
+        default:
+            return ''
+    }
+}
+
+function markdownCell(text: string): NotebookCell {
+    return {
+        cell_type: 'markdown',
+        metadata: {},
+        source: toSource(text),
+    }
+}
+
+/**
+ * Notebooks store multiline strings as a list of lines
+ * that keep their line breaks
+ */
+function toSource(text: string): string[] {
+    return text.split(/(?<=\n)/)
+}
@@ -0,0 +1,139 @@
+import { blobToDataURL } from '../utils/dom'
+import type { ExportFile } from './image-types'
+
+/**
+ * Scripts and styles the HTML template loads from cdnjs,
+ * mapped to their location inside an offline archive.
+ */
+const CdnAssets: Record<string, string> = {
+    'https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.7.0/styles/github-dark.min.css': 'assets/github-dark.min.css',
+    'https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.7.0/highlight.min.js': 'assets/highlight.min.js',
+    'https://cdnjs.cloudflare.com/ajax/libs/KaTeX/0.16.3/katex.min.css': 'assets/katex.min.css',
+    'https://cdnjs.cloudflare.com/ajax/libs/KaTeX/0.16.3/katex.min.js': 'assets/katex.min.js',
+    'https://cdnjs.cloudflare.com/ajax/libs/KaTeX/0.16.3/contrib/auto-render.min.js': 'assets/auto-render.min.js',
+}
+
+// url(fonts/KaTeX_Main-Regular.woff2)
+const FontUrlRegex = /url\((fonts\/[^)]+?\.woff2)\)/g
+// ,url(fonts/KaTeX_Main-Regular.woff) format("woff"), only woff2 is bundled
+const FallbackFontRegex = /,url\(fonts\/[^)]+?\.(?:woff|ttf)\) format\("[^"]+"\)/g
+
+let cachedAssets: Promise<ExportFile[]> | null = null
+let cachedInlineTags: Promise<Map<string, string>> | null = null
+
+/**
+ * Download the template assets and the KaTeX fonts so an archive
+ * works without network. The result is cached for the page session.
+ * Returns an empty list when the CDN cannot be reached.
+ */
+export function fetchOfflineAssets(): Promise<ExportFile[]> {
+    cachedAssets ??= downloadAssets().catch((error) => {
+        console.warn('Failed to download offline assets:', error)
+        cachedAssets = null
+        return []
+    })
+    return cachedAssets
+}
+
+async function downloadAssets(): Promise<ExportFile[]> {
+    const files: ExportFile[] = []
+
+    for (const [url, path] of Object.entries(CdnAssets)) {
+        const text = await fetchText(url)
+        files.push({ path, data: text })
+
+        // Fonts are referenced relative to the stylesheet
+        const fontPaths = [...text.matchAll(FontUrlRegex)].map(match => match[1])
+        for (const fontPath of new Set(fontPaths)) {
+            const response = await fetch(new URL(fontPath, url).href)
+            if (!response.ok) throw new Error(`${response.status} ${fontPath}`)
+            files.push({
+                path: `assets/${fontPath}`,
+                data: await response.blob(),
+                mimeType: 'font/woff2',
+            })
+        }
+    }
+
+    return files
+}
+
+async function fetchText(url: string) {
+    const response = await fetch(url)
+    if (!response.ok) throw new Error(`${response.status} ${url}`)
+    return response.text()
+}
+
+/**
+ * Point the CDN links of an exported page to the archive `assets/` folder
+ */
+export function localizeAssetUrls(html: string): string {
+    return Object.entries(CdnAssets).reduce((acc, [url, path]) => acc.replaceAll(url, path), html)
+}
+
+/**
+ * Replace the CDN `<link>` and `<script>` tags of an exported page with
+ * inline copies, fonts included as data urls, so the file renders without
+ * any network. Throws when the assets cannot be downloaded.
+ */
+export async function inlineOfflineAssets(html: string): Promise<string> {
+    cachedInlineTags ??= buildInlineTags()
+    const tags = await cachedInlineTags
+    if (tags.size === 0) {
+        // Let the next export try again
+        cachedInlineTags = null
+        throw new Error('Offline assets could not be downloaded')
+    }
+
+    let result = html
+    tags.forEach((inline, tag) => {
+        result = result.replace(tag, () => inline)
+    })
+    return result
+}
+
+/**
+ * Same as `inlineOfflineAssets`, but keeps the CDN links when the assets
+ * cannot be downloaded, for pages that are only rendered in the browser.
+ */
+export async function tryInlineOfflineAssets(html: string): Promise<string> {
+    try {
+        return await inlineOfflineAssets(html)
+    }
+    catch (error) {
+        console.warn('Failed to inline offline assets:', error)
+        return html
+    }
+}
+
+async function buildInlineTags(): Promise<Map<string, string>> {
+    const files = await fetchOfflineAssets()
+    const tags = new Map<string, string>()
+    if (files.length === 0) return tags
+
+    const fonts = new Map<string, string>()
+    for (const file of files) {
+        if (file.data instanceof Blob) fonts.set(file.path, await blobToDataURL(file.data))
+    }
+
+    for (const [url, path] of Object.entries(CdnAssets)) {
+        const data = files.find(file => file.path === path)?.data
+        if (typeof data !== 'string') continue
+
+        if (path.endsWith('.css')) {
+            const css = data
+                .replace(FallbackFontRegex, '')
+                .replace(FontUrlRegex, (match, fontPath: string) => {
+                    const dataUrl = fonts.get(`assets/${fontPath}`)
+                    return dataUrl ? `url(${dataUrl})` : match
+                })
+            tags.set(`<link rel="stylesheet" href="${url}">`, `<style>${css}</style>`)
+        }
+        else {
+            // A literal `</script` inside the library would end the tag early
+            tags.set(`<script src="${url}"></script>`, `<script>${data.replace(/<\/script/gi, '<\\/script')}</script>`)
+        }
+    }
+
+    return tags
+}
@@ -0,0 +1,261 @@
+import { fetchConversation, getCurrentChatId, processConversation } from '../api'
+import { KEY_EXPORT_FULL_TREE, KEY_IMAGE_HANDLING_STRATEGY } from '../constants'
+import i18n from '../i18n'
+import { checkIfConversationStarted, getUserAvatar } from '../page'
+import { getFileNameWithFormat } from '../utils/download'
+import { applyMessageSelection } from '../utils/message-selection'
+import { ScriptStorage } from '../utils/storage'
+import { dateStr, sleep } from '../utils/utils'
+import { conversationToHtml } from './html'
+import { initializeImageHandler } from './image-handler'
+import { tryInlineOfflineAssets } from './offline-assets'
+import type { ImageHandlingStrategy } from './image-types'
+import type { ApiConversationWithId, ApiProjectDetail, ConversationResult } from '../api'
+import type { ExportMeta } from '../ui/SettingContext'
+
+interface PdfSection {
+    title: string
+    date: string
+    html: string
+}
+
+/**
+ * A PDF has no folder for `separate_files` to write into,
+ * images are embedded instead
+ */
+function getPdfImageStrategy(): ImageHandlingStrategy {
+    const strategy = (ScriptStorage.get<string>(KEY_IMAGE_HANDLING_STRATEGY) || 'embed_base64') as ImageHandlingStrategy
+    return strategy === 'separate_files' ? 'embed_base64' : strategy
+}
+
+export async function exportToPdf(fileNameFormat: string, metaList: ExportMeta[]) {
+    if (!checkIfConversationStarted()) {
+        alert(i18n.t('Please start a conversation first'))
+        return false
+    }
+
+    const userAvatar = await getUserAvatar()
+
+    const imageHandlingStrategy = getPdfImageStrategy()
+    initializeImageHandler(imageHandlingStrategy)
+
+    const chatId = await getCurrentChatId()
+    const rawConversation = applyMessageSelection(await fetchConversation(chatId, imageHandlingStrategy !== 'link_original'))
+    const fullTree = ScriptStorage.get<boolean>(KEY_EXPORT_FULL_TREE) ?? false
+    const conversation = processConversation(rawConversation, { fullTree })
+
+    const fileName = getFileNameWithFormat(fileNameFormat, 'pdf', {
+        title: conversation.title,
+        chatId,
+        createTime: conversation.createTime,
+        updateTime: conversation.updateTime,
+    })
+    const section = await conversationToPdfSection(conversation, userAvatar, metaList)
+    await printDocument(await buildPrintDocument([section], fileName.slice(0, -4)))
+
+    return true
+}
+
+/**
+ * Export all conversations into one PDF, each starting on a new page
+ */
+export async function exportAllToPdf(fileNameFormat: string, apiConversations: ApiConversationWithId[], metaList?: ExportMeta[], project?: ApiProjectDetail | null) {
+    const userAvatar = await getUserAvatar()
+
+    initializeImageHandler(getPdfImageStrategy())
+
+    const fullTree = ScriptStorage.get<boolean>(KEY_EXPORT_FULL_TREE) ?? false
+    const conversations = apiConversations.map(x => processConversation(x, { fullTree }))
+
+    const sections: PdfSection[] = []
+    for (const conversation of conversations) {
+        sections.push(await conversationToPdfSection(conversation, userAvatar, metaList))
+    }
+    if (sections.length === 0) return false
+
+    const title = project?.gizmo.display.name ?? 'chatgpt-export'
+    await printDocument(await buildPrintDocument(sections, title))
+
+    return true
+}
+
+async function conversationToPdfSection(conversation: ConversationResult, avatar: string, metaList?: ExportMeta[]): Promise<PdfSection> {
+    const { html } = await conversationToHtml(conversation, avatar, metaList)
+    return {
+        title: conversation.title,
+        date: conversation.createTime ? dateStr(new Date(conversation.createTime * 1000)) : dateStr(),
+        html,
+    }
+}
+
+const PrintStyle = `
+@page {
+    size: A4;
+    margin: 20mm 15mm;
+
+    @top-left {
+        font-size: 9pt;
+        color: #616c77;
+    }
+
+    @top-right {
+        font-size: 9pt;
+        color: #616c77;
+    }
+
+    @bottom-center {
+        content: counter(page) " / " counter(pages);
+        font-size: 9pt;
+        color: #616c77;
+    }
+}
+
+html, body {
+    background-color: #fff !important;
+}
+
+* {
+    -webkit-print-color-adjust: exact;
+    print-color-adjust: exact;
+}
+
+.toggle,
+.archive-nav {
+    display: none !important;
+}
+
+.conversation {
+    max-width: none !important;
+    padding: 0 !important;
+}
+
+.pdf-section + .pdf-section {
+    break-before: page;
+}
+
+pre, code {
+    white-space: pre-wrap !important;
+    word-break: break-word;
+}
+
+pre, img, .katex-display {
+    break-inside: avoid;
+}
+
+.pdf-page {
+    width: 100%;
+    border-collapse: collapse;
+}
+
+.pdf-page > * > tr > td {
+    padding: 0;
+}
+
+.pdf-header {
+    display: flex;
+    justify-content: space-between;
+    gap: 1em;
+    padding-bottom: 6mm;
+    font-size: 9pt;
+    color: #616c77;
+}
+`
+
+/**
+ * Only recent Chromium prints the `@page` margin boxes that hold the
+ * running header and page numbers
+ */
+function supportsPageMarginBoxes() {
+    return 'CSSMarginRule' in window
+}
+
+/**
+ * Merge the exported pages into a single printable document. Every
+ * conversation is a named page, so the page header shows its own title
+ * and date. Links and text stay selectable in the printed PDF.
+ *
+ * Browsers without `@page` margin boxes print no page numbers, and get the
+ * header from a table header instead, which is repeated on every page.
+ */
+async function buildPrintDocument(sections: PdfSection[], documentTitle: string): Promise<string> {
+    const parser = new DOMParser()
+    const pages = sections.map(section => parser.parseFromString(section.html, 'text/html'))
+
+    const head = pages[0].head
+    head.querySelector('title')?.remove()
+    const title = document.createElement('title')
+    // Browsers use the title as the suggested file name
+    title.textContent = documentTitle
+    head.prepend(title)
+
+    const pageRules = sections.map((section, index) => `
+@page conversation-${index} {
+    @top-left { content: ${toCssString(section.title)}; }
+    @top-right { content: ${toCssString(section.date)}; }
+}`).join('\n')
+
+    const marginBoxes = supportsPageMarginBoxes()
+    const body = pages.map((page, index) => {
+        page.body.querySelectorAll('script').forEach(el => el.remove())
+        const content = marginBoxes
+            ? page.body.innerHTML
+            : `<table class="pdf-page">
+<thead><tr><td><div class="pdf-header"><span>${toHtmlText(sections[index].title)}</span><span>${toHtmlText(sections[index].date)}</span></div></td></tr></thead>
+<tbody><tr><td>${page.body.innerHTML}</td></tr></tbody>
+</table>`
+        return `<section class="pdf-section" style="page: conversation-${index}">${content}</section>`
+    }).join('\n')
+
+    const lang = pages[0].documentElement.lang || 'en'
+    const html = `<!DOCTYPE html>
+<html lang="${lang}" data-theme="light">
+<head>
+${head.innerHTML}
+<style>${PrintStyle}${pageRules}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`
+
+    // The print frame should not depend on the CDN when it can be avoided
+    return tryInlineOfflineAssets(html)
+}
+
+function toHtmlText(text: string) {
+    const el = document.createElement('span')
+    el.textContent = text
+    return el.innerHTML
+}
+
+function toCssString(text: string) {
+    return `"${text.replace(/["\\]/g, '\\$&').replace(/\s+/g, ' ')}"`
+}
+
+/**
+ * Open the print dialog for a document in a hidden frame,
+ * where the user can save it as PDF
+ */
+async function printDocument(html: string) {
+    const iframe = document.createElement('iframe')
+    iframe.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0; visibility: hidden;'
+    iframe.srcdoc = html
+
+    const loaded = new Promise(resolve => iframe.addEventListener('load', resolve, { once: true }))
+    document.body.appendChild(iframe)
+    await loaded
+
+    const frameWindow = iframe.contentWindow
+    if (!frameWindow) {
+        iframe.remove()
+        throw new Error('Failed to create the print frame.')
+    }
+
+    // Give highlight.js and KaTeX a moment to render
+    await frameWindow.document.fonts.ready
+    await sleep(500)
+
+    frameWindow.addEventListener('afterprint', () => iframe.remove(), { once: true })
+    frameWindow.focus()
+    frameWindow.print()
+}
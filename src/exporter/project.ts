@@ -0,0 +1,65 @@
+import { getCurrentTimestamp } from './image-utils'
+import type { ApiProjectDetail } from '../api'
+import type JSZip from 'jszip'
+
+/**
+ * Add `project.md` and `project.json` describing the project context
+ * (instructions, description and knowledge files) to an export archive.
+ */
+export function addProjectContextFiles(zip: JSZip, project: ApiProjectDetail | null | undefined) {
+    if (!project) return
+
+    zip.file('project.md', projectToMarkdown(project))
+    zip.file('project.json', projectToJson(project))
+}
+
+function projectToMarkdown({ gizmo, files = [] }: ApiProjectDetail): string {
+    const { name, description } = gizmo.display
+    const sections = [`# ${name}`]
+
+    if (description) {
+        sections.push(`## Description\n\n${description}`)
+    }
+
+    sections.push(`## Instructions\n\n${gizmo.instructions || '_No instructions_'}`)
+
+    if (files.length > 0) {
+        const rows = files.map(file => `| ${escapeTableCell(file.name)} | ${file.type ?? ''} | ${formatFileSize(file.size)} | ${file.created_at ?? ''} |`)
+        sections.push(`## Files\n\n| Name | Type | Size | Uploaded |\n| --- | --- | --- | --- |\n${rows.join('\n')}`)
+    }
+    else {
+        sections.push('## Files\n\n_No files_')
+    }
+
+    return `${sections.join('\n\n')}\n`
+}
+
+function projectToJson({ gizmo, files = [] }: ApiProjectDetail): string {
+    return JSON.stringify({
+        id: gizmo.id,
+        name: gizmo.display.name,
+        description: gizmo.display.description ?? '',
+        instructions: gizmo.instructions ?? '',
+        createdAt: gizmo.created_at,
+        updatedAt: gizmo.updated_at,
+        files: files.map(file => ({
+            id: file.file_id ?? file.id,
+            name: file.name,
+            type: file.type,
+            size: file.size,
+            createdAt: file.created_at,
+        })),
+        exportDate: getCurrentTimestamp(),
+    }, null, 2)
+}
+
+function escapeTableCell(text: string) {
+    return text.replace(/\|/g, '\\|')
+}
+
+function formatFileSize(size?: number) {
+    if (size === undefined) return ''
+    if (size < 1024) return `${size} B`
+    if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`
+    return `${(size / 1024 / 1024).toFixed(1)} MB`
+}
@@ -0,0 +1,120 @@
+import i18n from '../i18n'
+import { getTemplateError } from '../utils/template'
+import { dateStr, timestamp, unixTimestampToISOString } from '../utils/utils'
+import type { ExportedAttachment } from './attachments'
+import type { ConversationContext, ConversationNodeMessage, ConversationResult } from '../api'
+import type { TemplateData } from '../utils/template'
+
+/**
+ * How the Markdown and HTML exporters render the parts they share
+ */
+export interface TemplateFormat {
+    /** List of uploads below a message, `path` is missing when the download failed */
+    attachments: (items: Array<{ name: string; path?: string }>) => string
+    /** Collapsible preamble from the titled context sections */
+    context: (sections: Array<[name: string, text: string]>) => string
+}
+
+// The template whose error was reported last, so a bulk export alerts only once
+let reportedTemplate: string | null = null
+
+/**
+ * Return the custom template, or an empty string to use the built-in
+ * layout when the template cannot be rendered
+ */
+export function getUsableTemplate(template: string): string {
+    if (!template.trim()) return ''
+
+    const error = getTemplateError(template)
+    if (!error) return template
+
+    if (reportedTemplate !== template) {
+        reportedTemplate = template
+        alert(i18n.t('Export Template Invalid', { error }))
+    }
+    return ''
+}
+
+/**
+ * List uploaded attachments below the message
+ */
+export function transformAttachments(attachments: ExportedAttachment[], format: TemplateFormat): string {
+    if (attachments.length === 0) return ''
+    return format.attachments(attachments.map(({ name, path }) => ({ name, path })))
+}
+
+/**
+ * Render custom instructions and memory as a collapsible preamble
+ */
+export function transformContext(context: ConversationContext, format: TemplateFormat): string {
+    const sections = [
+        ['About the user', context.userProfile],
+        ['Response instructions', context.userInstructions],
+        ['Model memory', context.modelMemory],
+        ...context.systemMessages.map(text => ['System', text]),
+    ]
+        .filter((section): section is [string, string] => !!section[1])
+        .map(([name, text]): [string, string] => [name, text.trim()])
+
+    return format.context(sections)
+}
+
+/**
+ * format: 20:12 / 08:12 PM
+ */
+export function formatMessageTime(date: Date, hour24: boolean): string {
+    return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: !hour24 })
+}
+
+/**
+ * Fields of one message in the `{{#messages}}` section of a template
+ */
+export function getMessageTemplateData(
+    message: ConversationNodeMessage,
+    { index, author, content, timeHtml, hour24 }: {
+        index: number
+        author: string
+        content: string
+        /** The timestamp of the built-in layout, empty when disabled in the settings */
+        timeHtml: string
+        hour24: boolean
+    },
+): TemplateData {
+    const createTime = message.create_time
+    return {
+        index,
+        role: message.author.role,
+        author,
+        content,
+        create_time: createTime ? unixTimestampToISOString(createTime) : '',
+        time: createTime ? formatMessageTime(new Date(createTime * 1000), hour24) : '',
+        time_html: timeHtml,
+        model: message.metadata?.model_slug ?? '',
+        is_user: message.author.role === 'user',
+        is_assistant: message.author.role === 'assistant',
+    }
+}
+
+/**
+ * Conversation fields available in both the Markdown and HTML templates
+ */
+export function getConversationTemplateData(
+    conversation: ConversationResult,
+    { source, content, messages }: { source: string; content: string; messages: TemplateData[] },
+): TemplateData {
+    const { id, title, model, modelSlug, createTime, updateTime } = conversation
+    return {
+        title,
+        id,
+        source,
+        date: dateStr(),
+        timestamp: timestamp(),
+        model,
+        model_name: modelSlug,
+        create_time: unixTimestampToISOString(createTime),
+        update_time: unixTimestampToISOString(updateTime),
+        content,
+        message_count: messages.length,
+        messages,
+    }
+}
@@ -1,9 +1,16 @@
 import { fetchConversation, getCurrentChatId, processConversation } from '../api'
+import { KEY_EXPORT_AUDIO, KEY_EXPORT_TOOL_CALLS } from '../constants'
 import i18n from '../i18n'
 import { checkIfConversationStarted } from '../page'
 import { copyToClipboard } from '../utils/clipboard'
 import { flatMap, fromMarkdown, toMarkdown } from '../utils/markdown'
+import { applyMessageSelection } from '../utils/message-selection'
+import { ScriptStorage } from '../utils/storage'
 import { standardizeLineBreaks } from '../utils/text'
+import { formatAudioSegment, getAudioSegment } from './audio'
+import { getAuthorLabels, transformAuthor } from './author'
+import { isExportableToolCall, isExportableToolResult, transformBrowsingCall, transformCode, transformToolCall } from './tool-call'
+import type { AuthorLabels } from './author'
 import type { ConversationNodeMessage } from '../api'
 import type { Emphasis, Strong } from 'mdast'
 
@@ -16,11 +23,14 @@ export async function exportToText() {
     const chatId = await getCurrentChatId()
     // All image in text output will be replaced with `[image]`
     // So we don't need to waste time to download them
-    const rawConversation = await fetchConversation(chatId, false)
-
-    const { conversationNodes } = processConversation(rawConversation)
-    const text = conversationNodes
-        .map(({ message }) => transformMessage(message))
+    const rawConversation = applyMessageSelection(await fetchConversation(chatId, false))
+
+    const conversation = processConversation(rawConversation)
+    const labels = await getAuthorLabels(conversation)
+    const exportToolCalls = ScriptStorage.get<boolean>(KEY_EXPORT_TOOL_CALLS) ?? false
+    const exportAudio = ScriptStorage.get<boolean>(KEY_EXPORT_AUDIO) ?? false
+    const text = conversation.conversationNodes
+        .map(({ message }) => transformMessage(message, labels, exportToolCalls, exportAudio))
         .filter(Boolean)
         .join('\n\n')
 
@@ -31,14 +41,15 @@ export async function exportToText() {
 
 const LatexRegex = /(\s\$\$.+\$\$\s|\s\$.+\$\s|\\\[.+\\\]|\\\(.+\\\))|(^\$$[\S\s]+^\$$)|(^\$\$[\S\s]+^\$\$$)/gm
 
-function transformMessage(message?: ConversationNodeMessage) {
+function transformMessage(message: ConversationNodeMessage | undefined, labels: AuthorLabels, exportToolCalls: boolean, exportAudio: boolean) {
     if (!message || !message.content) return null
 
     // ChatGPT is talking to tool
-    if (message.recipient !== 'all') return null
+    const isToolCall = message.recipient !== 'all'
+    if (isToolCall && !(exportToolCalls && isExportableToolCall(message))) return null
 
     // Skip tool's intermediate message.
-    if (message.author.role === 'tool') {
+    if (message.author.role === 'tool' && !(exportToolCalls && isExportableToolResult(message))) {
         if (
             // HACK: we special case the content_type 'multimodal_text' here because it is used by
             // the dalle tool to return the image result, and we do want to show that.
@@ -53,8 +64,10 @@ function transformMessage(message?: ConversationNodeMessage) {
         }
     }
 
-    const author = transformAuthor(message.author)
-    let content = transformContent(message.content, message.metadata)
+    const author = transformAuthor(message.author, labels)
+    let content = isToolCall
+        ? transformToolCall(message)
+        : transformContent(message.content, message.metadata, exportAudio)
 
     const matches = content.match(LatexRegex)
     if (matches) {
@@ -90,24 +103,27 @@ function transformMessage(message?: ConversationNodeMessage) {
 function transformContent(
     content: ConversationNodeMessage['content'],
     metadata: ConversationNodeMessage['metadata'],
+    exportAudio: boolean,
 ) {
     switch (content.content_type) {
         case 'text':
             return content.parts?.join('\n') || ''
         case 'code':
-            return content.text || ''
+            return transformCode(content)
         case 'execution_output':
-            if (metadata?.aggregate_result?.messages) {
+            if (metadata?.aggregate_result?.messages?.some(msg => msg.message_type === 'image')) {
                 return metadata.aggregate_result.messages
                     .filter(msg => msg.message_type === 'image')
                     .map(() => '[image]')
                     .join('\n')
             }
             return content.text || ''
-        case 'tether_quote':
-            return `> ${content.title || content.text || ''}`
+        case 'tether_quote': {
+            const title = content.title || content.text || ''
+            return `> ${content.url ? `[${title || content.url}](${content.url})` : title}`
+        }
         case 'tether_browsing_code':
-            return '' // TODO: implement
+            return transformBrowsingCall(content, metadata)
         case 'tether_browsing_display': {
             const metadataList = metadata?._cite_metadata?.metadata_list
             if (Array.isArray(metadataList) && metadataList.length > 0) {
@@ -116,11 +132,15 @@ function transformContent(
             return ''
         }
         case 'multimodal_text': {
-            return content.parts?.map((part) => {
+            return content.parts?.map((part, partIndex) => {
                 if (typeof part === 'string') return part
                 // We show `[image]` for multimodal as the base64 string is too long. This is bad for sharing pure text.
                 if (part.content_type === 'image_asset_pointer') return '[image]'
-                if (part.content_type === 'audio_transcription') return `[audio] ${part.text}`
+                if (part.content_type === 'audio_transcription') {
+                    // The clips are not saved, only their timestamps, eg. `[audio 00:03.2–00:07.9]`
+                    const segment = exportAudio ? getAudioSegment(content.parts, partIndex) : null
+                    return `[${segment ? `audio ${formatAudioSegment(segment)}` : 'audio'}] ${part.text}`
+                }
                 if (part.content_type === 'audio_asset_pointer') return null
                 if (part.content_type === 'real_time_user_audio_video_asset_pointer') return null
                 return '[Unsupported multimodal content]'
@@ -152,19 +172,6 @@ function reformatContent(input: string) {
     return result
 }
 
-function transformAuthor(author: ConversationNodeMessage['author']): string {
-    switch (author.role) {
-        case 'assistant':
-            return 'ChatGPT'
-        case 'user':
-            return 'You'
-        case 'tool':
-            return `Plugin${author.name ? ` (${author.name})` : ''}`
-        default:
-            return author.role
-    }
-}
-
 /**
  * Transform foot notes in assistant's message
  */
@@ -0,0 +1,182 @@
+import { getCodeLanguage } from '../utils/text'
+import type { ConversationNodeMessage } from '../api'
+
+interface BrowsingAction {
+    /** eg. `Search`, `Open` or `Click` */
+    label: string
+    value: string
+}
+
+// Browsing commands and the keys of `web` tool calls, by the action they perform
+const BrowsingLabels: Record<string, string> = {
+    search: 'Search',
+    msearch: 'Search',
+    search_query: 'Search',
+    image_query: 'Search',
+    query: 'Search',
+    queries: 'Search',
+    open: 'Open',
+    open_url: 'Open',
+    click: 'Click',
+    mclick: 'Click',
+    quote: 'Quote',
+    quote_lines: 'Quote',
+    find: 'Find',
+    scroll: 'Scroll',
+    back: 'Back',
+}
+
+// `search("query", recency_days=1)`, `mclick([0, 3])`
+const BrowsingCommandRegex = /^(\w+)\(([\s\S]*)\)$/
+const StringLiteralRegex = /"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'/g
+
+/**
+ * Whether an assistant message addressed to a tool can be exported:
+ * code sent to the interpreter or a browsing command
+ */
+export function isExportableToolCall(message: ConversationNodeMessage): boolean {
+    if (message.author.role !== 'assistant') return false
+    return isCodeToolCall(message) || isBrowsingToolCall(message)
+}
+
+/**
+ * Tool output exported along with the tool calls
+ */
+export function isExportableToolResult(message: ConversationNodeMessage): boolean {
+    if (message.author.role !== 'tool') return false
+    const { content_type } = message.content
+    return content_type === 'execution_output'
+        || content_type === 'tether_quote'
+        || content_type === 'tether_browsing_display'
+}
+
+function isCodeToolCall(message: ConversationNodeMessage): boolean {
+    return message.recipient === 'python' && message.content.content_type === 'code'
+}
+
+function isBrowsingToolCall(message: ConversationNodeMessage): boolean {
+    const { content } = message
+    const recipient: string = message.recipient
+    if (content.content_type === 'tether_browsing_code') return true
+    if (content.content_type !== 'code' && content.content_type !== 'text') return false
+    return recipient === 'browser' || recipient === 'web' || recipient.startsWith('web.')
+}
+
+/**
+ * Render a tool call as markdown, see `isExportableToolCall`
+ */
+export function transformToolCall(message: ConversationNodeMessage): string {
+    const { content, metadata } = message
+    if (content.content_type === 'code' && isCodeToolCall(message)) {
+        return transformCode(content, message.recipient)
+    }
+    return transformBrowsingCall(content, metadata)
+}
+
+export function transformCode(content: { language: string; text: string }, recipient = 'all'): string {
+    return `Code:\n\`\`\`${getCodeLanguage(content.language, recipient)}\n${content.text}\n\`\`\``
+}
+
+/**
+ * List the searches and pages of a browsing call, eg.
+ *
+ * Browsing:
+ * - Search: "query"
+ * - Open: <https://example.com>
+ */
+export function transformBrowsingCall(
+    content: ConversationNodeMessage['content'],
+    metadata: ConversationNodeMessage['metadata'],
+): string {
+    const text = getContentText(content).trim()
+    let actions = parseBrowsingText(text)
+    if (actions.length === 0 && metadata?.command) {
+        actions = parseBrowsingCommand(metadata.command, metadata.args)
+    }
+
+    if (actions.length > 0) {
+        const items = actions.map(({ label, value }) => `- ${label}${value ? `: ${formatBrowsingValue(label, value)}` : ''}`)
+        return `Browsing:\n${items.join('\n')}`
+    }
+    // Keep commands we don't understand as they are
+    return text ? `Browsing:\n\`\`\`\n${text}\n\`\`\`` : ''
+}
+
+function getContentText(content: ConversationNodeMessage['content']): string {
+    if (content.content_type === 'text') return content.parts?.join('\n') || ''
+    if ('text' in content && typeof content.text === 'string') return content.text
+    return ''
+}
+
+function parseBrowsingText(text: string): BrowsingAction[] {
+    if (!text) return []
+
+    if (text.startsWith('{')) {
+        try {
+            return parseBrowsingJson(JSON.parse(text))
+        }
+        catch {
+            return []
+        }
+    }
+
+    return text.split('\n').flatMap((line) => {
+        const match = line.trim().match(BrowsingCommandRegex)
+        if (!match) return []
+
+        const [, name, args] = match
+        const label = BrowsingLabels[name]
+        if (!label) return []
+
+        const strings = [...args.matchAll(StringLiteralRegex)].map(([, double, single]) => unescapeString(double ?? single))
+        if (label === 'Search' || label === 'Open' || label === 'Find') {
+            return (strings.length > 0 ? strings : [args.trim()]).map(value => ({ label, value }))
+        }
+        if (label === 'Click') {
+            return (args.match(/\d+/g) ?? []).map(id => ({ label, value: `result ${id}` }))
+        }
+        return [{ label, value: args.trim() }]
+    })
+}
+
+/**
+ * `web` tool calls are JSON, eg. `{"search_query": [{"q": "query"}], "open": [{"ref_id": "https://..."}]}`
+ */
+function parseBrowsingJson(json: unknown): BrowsingAction[] {
+    if (!json || typeof json !== 'object' || Array.isArray(json)) return []
+
+    return Object.entries(json).flatMap(([key, value]) => {
+        const label = BrowsingLabels[key]
+        if (!label) return []
+
+        const items: unknown[] = Array.isArray(value) ? value : [value]
+        return items.flatMap((item) => {
+            if (typeof item === 'string' || typeof item === 'number') return [{ label, value: String(item) }]
+            if (!item || typeof item !== 'object') return []
+
+            const fields = item as Record<string, unknown>
+            const found = [fields.q, fields.query, fields.url, fields.ref_id, fields.pattern]
+                .find(field => typeof field === 'string' || typeof field === 'number')
+            return [{ label, value: found !== undefined ? String(found) : JSON.stringify(item) }]
+        })
+    })
+}
+
+function parseBrowsingCommand(command: string, args: unknown): BrowsingAction[] {
+    const label = BrowsingLabels[command] ?? command
+    const values = (Array.isArray(args) ? args : [args])
+        .filter(arg => typeof arg === 'string' || typeof arg === 'number')
+        .map(arg => (label === 'Click' && typeof arg === 'number') ? `result ${arg}` : String(arg))
+    if (values.length === 0) return [{ label, value: '' }]
+    return values.map(value => ({ label, value }))
+}
+
+function formatBrowsingValue(label: string, value: string): string {
+    if (/^https?:\/\/\S+$/.test(value)) return `<${value}>`
+    if (label === 'Search') return `"${value}"`
+    return value
+}
+
+function unescapeString(value: string): string {
+    return value.replace(/\\(.)/g, '$1')
+}
@@ -1,6 +1,6 @@
 import JSZip from 'jszip'
-import { sanitizeFileName } from './image-utils'
-import type { ExportFile, ExportMetadata } from './image-types'
+import { getCurrentTimestamp, sanitizeFileName } from './image-utils'
+import type { ExportFile, ExportMetadata, ImageHandlingStrategy } from './image-types'
 
 /**
  * ZIP packager for creating organized export archives
@@ -9,8 +9,11 @@ export class ZipPackager {
     private zip: JSZip
     private metadata: ExportMetadata | null = null
 
-    constructor() {
-        this.zip = new JSZip()
+    /**
+     * @param zip existing archive to add the files to, eg. a bulk export
+     */
+    constructor(zip: JSZip = new JSZip()) {
+        this.zip = zip
     }
 
     /**
@@ -95,6 +98,7 @@ export class ZipPackager {
             content += `Image Organization:\n`
             content += `- Image files are stored in the 'images/' directory\n`
             content += `- Each image has a descriptive filename based on its context\n`
+            content += `- Identical images are stored once, metadata.json lists every place they are used\n`
             content += `- Relative paths are used in content for portability\n\n`
         }
         else if (imageHandlingStrategy === 'text_marker') {
@@ -107,6 +111,26 @@ export class ZipPackager {
             content += `- Images are embedded as base64 data within the content\n`
             content += `- Files are self-contained but may be larger\n\n`
         }
+        else if (imageHandlingStrategy === 'link_original') {
+            content += `Image Handling:\n`
+            content += `- Images are linked to their original urls, which may expire\n`
+            content += `- Expiry dates are noted next to each link\n\n`
+        }
+
+        const attachments = this.metadata.attachments ?? []
+        if (attachments.length > 0) {
+            const failed = attachments.filter(a => !a.path).length
+            const audioClips = attachments.filter(a => a.path && a.source === 'audio').length
+            content += `Attachments:\n`
+            content += `- ${attachments.length - failed - audioClips} attached file(s) are stored in the 'attachments/' directory\n`
+            if (audioClips > 0) {
+                content += `- ${audioClips} voice mode audio clip(s) are stored in the 'audio/' directory\n`
+            }
+            if (failed > 0) {
+                content += `- ${failed} attached file(s) could not be downloaded, see metadata.json\n`
+            }
+            content += `\n`
+        }
 
         content += `File Structure:\n`
         if (imageHandlingStrategy === 'separate_files') {
@@ -143,6 +167,8 @@ export class ZipPackager {
                 return 'Text Markers'
             case 'separate_files':
                 return 'Separate Files'
+            case 'link_original':
+                return 'Link Original URLs'
             default:
                 return strategy
         }
@@ -192,6 +218,53 @@ export class ZipPackager {
     }
 }
 
+/**
+ * Create export metadata for archives without separately stored images
+ */
+export function createExportMetadata(
+    conversationTitle: string,
+    strategy: ImageHandlingStrategy,
+): ExportMetadata {
+    return {
+        version: '1.0.0',
+        exportDate: getCurrentTimestamp(),
+        conversationTitle,
+        imageHandlingStrategy: strategy,
+        totalImages: 0,
+        images: [],
+        settings: {},
+    }
+}
+
+/**
+ * Combine the metadata of several conversations exported into one archive.
+ * Images shared between conversations are merged into a single entry.
+ */
+export function mergeExportMetadata(
+    title: string,
+    strategy: ImageHandlingStrategy,
+    metadataList: ExportMetadata[],
+): ExportMetadata {
+    const merged = createExportMetadata(title, strategy)
+    const entries = new Map<string, ExportMetadata['images'][number]>()
+
+    metadataList.forEach((metadata) => {
+        merged.totalImages += metadata.totalImages
+        metadata.images.forEach((image) => {
+            const key = image.hash ?? image.fileName
+            const entry = entries.get(key)
+            if (entry) {
+                entry.usages = [...(entry.usages ?? []), ...(image.usages ?? [])]
+                return
+            }
+            entries.set(key, { ...image, usages: [...(image.usages ?? [])] })
+        })
+    })
+    merged.images = [...entries.values()]
+
+    return merged
+}
+
 /**
  * Convenience function to create a complete export ZIP
  */
@@ -90,6 +90,18 @@ function getUserProfile() {
     return user
 }
 
+/**
+ * Display name of the signed in account, empty when unavailable
+ */
+export function getUserName(): string {
+    try {
+        return getUserProfile().name ?? ''
+    }
+    catch {
+        return ''
+    }
+}
+
 export function getChatIdFromUrl() {
     // /share/1e5sf-asdf-1234
     // /c/1e5sf-asdf-1234
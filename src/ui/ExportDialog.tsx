@@ -3,16 +3,23 @@ import * as Dialog from '@radix-ui/react-dialog'
 import { h } from 'preact'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'preact/hooks'
 import { useTranslation } from 'react-i18next'
-import { archiveConversation, deleteConversation, fetchAllConversations, fetchConversation, fetchProjects } from '../api'
-import { exportAllToHtml } from '../exporter/html'
-import { exportAllToJson, exportAllToOfficialJson } from '../exporter/json'
+import { archiveConversation, deleteConversation, fetchAllConversations, fetchConversation, fetchProjectDetail, fetchProjects } from '../api'
+import { exportAllToArchiveSite, exportAllToHtml } from '../exporter/html'
+import { exportAllToPng } from '../exporter/image'
+import { exportAllToAlpaca, exportAllToFineTune, exportAllToJson, exportAllToOfficialJson, exportAllToShareGPT } from '../exporter/json'
 import { exportAllToMarkdown } from '../exporter/markdown'
+import { exportAllToNotebook } from '../exporter/notebook'
+import { exportAllToPdf } from '../exporter/pdf'
+import { getExportLedger, isChangedSinceLastExport, recordExports } from '../utils/export-ledger'
+import { readOfficialExport, replaceLocalImageAssets, revokeLocalImageAssets } from '../utils/official-export'
 import { RequestQueue } from '../utils/queue'
 import { CheckBox } from './CheckBox'
 import { IconCross, IconUpload } from './Icons'
 import { useSettingContext } from './SettingContext'
 import type { ApiConversationItem, ApiConversationWithId, ApiProjectInfo } from '../api'
 import type { FC } from '../type'
+import type { ConversationValidation } from '../utils/validate-conversation'
+import type JSZip from 'jszip'
 
 import type { ChangeEvent } from 'preact/compat'
 
@@ -105,32 +112,90 @@ const ConversationSelect: FC<ConversationSelectProps> = ({
 
 type ExportSource = 'API' | 'Local'
 
+interface SyncReport {
+    exported: number
+    skipped: ApiConversationItem[]
+}
+
+const SyncReportDetails: FC<{ report: SyncReport }> = ({ report }) => {
+    const { t } = useTranslation()
+
+    return (
+        <details className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+            <summary className="cursor-pointer">
+                {t('Sync Report', { exported: report.exported, skipped: report.skipped.length })}
+            </summary>
+            <ul className="mt-1 pl-4 list-disc max-h-32 overflow-y-auto">
+                {report.skipped.map(c => <li key={c.id} className="truncate">{c.title}</li>)}
+            </ul>
+        </details>
+    )
+}
+
+const ImportReportDetails: FC<{ reports: ConversationValidation[] }> = ({ reports }) => {
+    const { t } = useTranslation()
+    const invalid = reports.filter(r => !r.valid).length
+
+    return (
+        <details className="mt-2 text-sm text-gray-600 dark:text-gray-300" open={invalid > 0}>
+            <summary className="cursor-pointer">
+                {t('Import Report', { invalid, repaired: reports.length - invalid })}
+            </summary>
+            <ul className="mt-1 pl-4 list-disc max-h-32 overflow-y-auto">
+                {reports.map(report => (
+                    <li key={report.id}>
+                        <span className={report.valid ? 'font-medium' : 'font-medium text-red-500'}>{report.title}</span>
+                        <ul className="pl-4 list-[circle]">
+                            {report.issues.map(issue => (
+                                <li key={issue.message} className={issue.severity === 'error' ? 'text-red-500' : ''}>
+                                    {issue.repaired ? `${issue.message} (${t('repaired')})` : issue.message}
+                                </li>
+                            ))}
+                        </ul>
+                    </li>
+                ))}
+            </ul>
+        </details>
+    )
+}
+
 interface DialogContentProps {
     format: string
 }
 
 const DialogContent: FC<DialogContentProps> = ({ format }) => {
     const { t } = useTranslation()
-    const { enableMeta, exportMetaList, exportAllLimit } = useSettingContext()
+    const { enableMeta, exportMetaList, exportAllLimit, imageHandlingStrategy } = useSettingContext()
     const metaList = useMemo(() => enableMeta ? exportMetaList : [], [enableMeta, exportMetaList])
 
     const exportAllOptions = useMemo(() => [
         { label: 'Markdown', callback: exportAllToMarkdown },
         { label: 'HTML', callback: exportAllToHtml },
+        { label: 'Archive Site', callback: exportAllToArchiveSite },
+        { label: 'PDF', callback: exportAllToPdf },
+        { label: 'PNG', callback: exportAllToPng },
+        { label: 'Jupyter Notebook', callback: exportAllToNotebook },
         { label: 'JSON', callback: exportAllToOfficialJson },
         { label: 'JSON (ZIP)', callback: exportAllToJson },
+        { label: 'OpenAI Fine-tuning (JSONL)', callback: exportAllToFineTune },
+        { label: 'ShareGPT', callback: exportAllToShareGPT },
+        { label: 'Alpaca', callback: exportAllToAlpaca },
     ], [])
 
     const fileInputRef = useRef<HTMLInputElement>(null)
     const [exportSource, setExportSource] = useState<ExportSource>('API')
     const [apiConversations, setApiConversations] = useState<ApiConversationItem[]>([])
     const [localConversations, setLocalConversations] = useState<ApiConversationWithId[]>([])
+    const [localArchive, setLocalArchive] = useState<JSZip | null>(null)
+    const [importReports, setImportReports] = useState<ConversationValidation[]>([])
     const conversations = exportSource === 'API' ? apiConversations : localConversations
     const [projects, setProjects] = useState<ApiProjectInfo[]>([])
     const [loading, setLoading] = useState(false)
     const [error, setError] = useState('')
     const [processing, setProcessing] = useState(false)
     const [selectedProject, setSelectedProject] = useState<ApiProjectInfo | null>(null)
+    const [syncOnly, setSyncOnly] = useState(false)
+    const [syncReport, setSyncReport] = useState<SyncReport | null>(null)
 
     const [selected, setSelected] = useState<ApiConversationItem[]>([])
     const [exportType, setExportType] = useState(exportAllOptions[0].label)
@@ -146,22 +211,30 @@ const DialogContent: FC<DialogContentProps> = ({ format }) => {
         currentStatus: '',
     })
 
-    const onUpload = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    const onUpload = useCallback(async (e: ChangeEvent<HTMLInputElement>) => {
         const file = (e.target as HTMLInputElement)?.files?.[0]
         if (!file) return
 
-        const fileReader = new FileReader()
-        fileReader.onload = () => {
-            const data = JSON.parse(fileReader.result as string)
-            if (!Array.isArray(data)) {
+        setLoading(true)
+        try {
+            const data = await readOfficialExport(file)
+            if (!data) {
                 alert(t('Invalid File Format'))
                 return
             }
             setSelected([])
             setExportSource('Local')
-            setLocalConversations(data)
+            setLocalConversations(data.conversations)
+            setLocalArchive(data.archive)
+            setImportReports(data.reports)
+        }
+        catch (err) {
+            console.error('Failed to read export file:', err)
+            alert(t('Invalid File Format'))
+        }
+        finally {
+            setLoading(false)
         }
-        fileReader.readAsText(file)
     }, [t, setExportSource, setLocalConversations])
 
     useEffect(() => {
@@ -192,13 +265,24 @@ const DialogContent: FC<DialogContentProps> = ({ format }) => {
     }, [deleteQueue])
 
     useEffect(() => {
-        const off = requestQueue.on('done', (results) => {
+        const off = requestQueue.on('done', async (results) => {
             setProcessing(false)
             const callback = exportAllOptions.find(o => o.label === exportType)?.callback
-            if (callback) callback(format, results, metaList)
+            if (!callback) return
+
+            const project = selectedProject
+                ? await fetchProjectDetail(selectedProject.id).catch((err) => {
+                    console.error('Failed to fetch project context:', err)
+                    return null
+                })
+                : null
+            const succeed = await callback(format, results, metaList, project)
+            // The print dialog can be cancelled without us knowing,
+            // so a PDF export is not proof the conversation was saved
+            if (succeed && exportType !== 'PDF') recordExports(results)
         })
         return () => off()
-    }, [requestQueue, exportAllOptions, exportType, format, metaList])
+    }, [requestQueue, exportAllOptions, exportType, format, metaList, selectedProject])
 
     useEffect(() => {
         const off = archiveQueue.on('done', () => {
@@ -225,26 +309,58 @@ const DialogContent: FC<DialogContentProps> = ({ format }) => {
 
         requestQueue.clear()
 
-        selected.forEach(({ id, title }) => {
+        let targets = selected
+        if (syncOnly) {
+            const ledger = getExportLedger()
+            targets = selected.filter(c => isChangedSinceLastExport(ledger, c))
+            setSyncReport({
+                exported: targets.length,
+                skipped: selected.filter(c => !targets.includes(c)),
+            })
+            if (targets.length === 0) return
+        }
+        else {
+            setSyncReport(null)
+        }
+
+        targets.forEach(({ id, title }) => {
             requestQueue.add({
                 name: title,
-                request: () => fetchConversation(id, exportType !== 'JSON'),
+                // Linking keeps the original pointers, no need to download the images
+                request: () => fetchConversation(id, exportType !== 'JSON' && imageHandlingStrategy !== 'link_original'),
             })
         })
 
         requestQueue.start()
-    }, [disabled, selected, requestQueue, exportType])
+    }, [disabled, selected, requestQueue, exportType, syncOnly, imageHandlingStrategy])
 
-    const exportAllFromLocal = useCallback(() => {
+    const exportAllFromLocal = useCallback(async () => {
         if (disabled) return
 
-        const results = localConversations.filter(c => selected.some(s => s.id === c.id))
         const callback = exportAllOptions.find(o => o.label === exportType)?.callback
-        if (callback) callback(format, results, metaList)
+        if (!callback) return
+
+        const conversations = localConversations.filter(c => selected.some(s => s.id === c.id))
+        try {
+            // Same as the API source, the official JSON keeps the original pointers
+            const results = localArchive && exportType !== 'JSON'
+                ? await replaceLocalImageAssets(conversations, localArchive)
+                : conversations
+            await callback(format, results, metaList)
+        }
+        catch (err) {
+            console.error('Failed to export local conversations:', err)
+            alert(`${t('Local Export Failed')}: ${(err as Error).message}`)
+        }
+        finally {
+            if (localArchive) revokeLocalImageAssets(localArchive)
+        }
     }, [
+        t,
         disabled,
         selected,
         localConversations,
+        localArchive,
         exportAllOptions,
         exportType,
         format,
@@ -312,7 +428,7 @@ const DialogContent: FC<DialogContentProps> = ({ format }) => {
         <>
             {(Dialog.Title as any)({ className: 'DialogTitle' }, t('Export Dialog Title'))}
             <div className="flex items-center text-gray-600 dark:text-gray-300 flex justify-between border-b-[1px] pb-3 mb-3 dark:border-gray-700">
-                {t('Export from official export file')} (conversations.json)&nbsp;
+                {t('Export from official export file')} (conversations.json / ZIP)&nbsp;
                 {exportSource === 'API' && (
                     <button className="btn relative btn-neutral" onClick={() => fileInputRef.current?.click()}>
                         <IconUpload className="w-4 h-4" />
@@ -321,7 +437,7 @@ const DialogContent: FC<DialogContentProps> = ({ format }) => {
             </div>
             <input
                 type="file"
-                accept="application/json"
+                accept="application/json,application/zip,.json,.zip"
                 className="hidden"
                 ref={fileInputRef}
                 onChange={onUpload}
@@ -340,6 +456,15 @@ const DialogContent: FC<DialogContentProps> = ({ format }) => {
                 loading={loading}
                 error={error}
             />
+            {exportSource === 'API' && (
+                <CheckBox
+                    className="mt-3"
+                    label={t('Only new or changed since last export')}
+                    disabled={processing}
+                    checked={syncOnly}
+                    onCheckedChange={setSyncOnly}
+                />
+            )}
             <div className="flex mt-6" style={{ justifyContent: 'space-between' }}>
                 <select className="Select" disabled={processing} value={exportType} onChange={e => setExportType(e.currentTarget.value)}>
                     {exportAllOptions.map(({ label }) => (
@@ -357,6 +482,8 @@ const DialogContent: FC<DialogContentProps> = ({ format }) => {
                     {t('Export')}
                 </button>
             </div>
+            {syncReport && <SyncReportDetails report={syncReport} />}
+            {exportSource === 'Local' && importReports.length > 0 && <ImportReportDetails reports={importReports} />}
             {processing && (
                 <>
                     <div className="mt-2 mb-1 justify-between flex">
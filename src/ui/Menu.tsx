@@ -4,17 +4,22 @@ import * as HoverCard from '@radix-ui/react-hover-card'
 import { h } from 'preact'
 import { useCallback, useEffect, useMemo, useState } from 'preact/hooks'
 import { useTranslation } from 'react-i18next'
+import { exportToCodeFiles } from '../exporter/code-files'
 import { exportToHtml } from '../exporter/html'
 import { exportToPng } from '../exporter/image'
-import { exportToJson, exportToOoba, exportToTavern } from '../exporter/json'
+import { exportToAlpaca, exportToFineTune, exportToJson, exportToOoba, exportToShareGPT, exportToTavern } from '../exporter/json'
 import { exportToMarkdown } from '../exporter/markdown'
+import { exportToNotebook } from '../exporter/notebook'
+import { exportToPdf } from '../exporter/pdf'
 import { exportToText } from '../exporter/text'
 import { useWindowResize } from '../hooks/useWindowResize'
-import { getHistoryDisabled } from '../page'
+import { getChatIdFromUrl, getHistoryDisabled } from '../page'
+import { clearMessageSelection, getSelectedTurnCount } from '../utils/message-selection'
 import { Divider } from './Divider'
 import { ExportDialog } from './ExportDialog'
-import { FileCode, IconArrowRightFromBracket, IconCamera, IconCopy, IconJSON, IconMarkdown, IconSetting, IconZip } from './Icons'
+import { FileCode, IconArrowRightFromBracket, IconCamera, IconChecklist, IconCopy, IconCross, IconJSON, IconMarkdown, IconNotebook, IconPDF, IconSetting, IconZip } from './Icons'
 import { MenuItem } from './MenuItem'
+import { MessageSelectDialog } from './MessageSelectDialog'
 import { SettingProvider, useSettingContext } from './SettingContext'
 import { SettingDialog } from './SettingDialog'
 
@@ -28,7 +33,10 @@ function MenuInner({ container }: { container: HTMLDivElement }) {
     const [open, setOpen] = useState(false)
     const [jsonOpen, setJsonOpen] = useState(false)
     const [exportOpen, setExportOpen] = useState(false)
+    const [selectOpen, setSelectOpen] = useState(false)
     const [settingOpen, setSettingOpen] = useState(false)
+    // Bumped to render again when the message selection is cleared
+    const [, setSelectionVersion] = useState(0)
 
     const {
         format,
@@ -49,10 +57,21 @@ function MenuInner({ container }: { container: HTMLDivElement }) {
 
     const metaList = useMemo(() => (enableMeta ? exportMetaList : []), [enableMeta, exportMetaList])
 
+    // The selection applies to every export of the chat until it is cleared
+    const selectedTurns = getSelectedTurnCount(getChatIdFromUrl())
+    const onClickClearSelection = useCallback(() => {
+        clearMessageSelection()
+        setSelectionVersion(version => version + 1)
+        return true
+    }, [])
+
     const onClickText = useCallback(() => exportToText(), [])
-    const onClickPng = useCallback(() => exportToPng(format), [format])
+    const onClickPng = useCallback(() => exportToPng(format, metaList), [format, metaList])
     const onClickMarkdown = useCallback(() => exportToMarkdown(format, metaList), [format, metaList])
     const onClickHtml = useCallback(() => exportToHtml(format, metaList), [format, metaList])
+    const onClickPdf = useCallback(() => exportToPdf(format, metaList), [format, metaList])
+    const onClickNotebook = useCallback(() => exportToNotebook(format), [format])
+    const onClickCodeFiles = useCallback(() => exportToCodeFiles(format), [format])
     const onClickJSON = useCallback(() => {
         setJsonOpen(true)
         return true
@@ -60,6 +79,9 @@ function MenuInner({ container }: { container: HTMLDivElement }) {
     const onClickOfficialJSON = useCallback(() => exportToJson(format), [format])
     const onClickTavern = useCallback(() => exportToTavern(format), [format])
     const onClickOoba = useCallback(() => exportToOoba(format), [format])
+    const onClickFineTune = useCallback(() => exportToFineTune(format), [format])
+    const onClickShareGPT = useCallback(() => exportToShareGPT(format), [format])
+    const onClickAlpaca = useCallback(() => exportToAlpaca(format), [format])
 
     const width = useWindowResize(() => window.innerWidth)
     const isMobile = width < 768
@@ -91,7 +113,7 @@ function MenuInner({ container }: { container: HTMLDivElement }) {
                     }),
                 ),
                 (isMobile ? 'div' : (HoverCard.Portal as any))(
-                    { container: isMobile ? container : document.body, forceMount: open || jsonOpen || settingOpen || exportOpen },
+                    { container: isMobile ? container : document.body, forceMount: open || jsonOpen || settingOpen || exportOpen || selectOpen },
                     (HoverCard.Content as any)(
                         {
                             className: `
@@ -175,9 +197,62 @@ function MenuInner({ container }: { container: HTMLDivElement }) {
                                         className: 'row-full',
                                         onClick: onClickOoba,
                                     }),
+                                    h(MenuItem, {
+                                        text: 'OpenAI Fine-tuning (JSONL)',
+                                        icon: IconCopy,
+                                        className: 'row-full',
+                                        onClick: onClickFineTune,
+                                    }),
+                                    h(MenuItem, {
+                                        text: 'ShareGPT',
+                                        icon: IconCopy,
+                                        className: 'row-full',
+                                        onClick: onClickShareGPT,
+                                    }),
+                                    h(MenuItem, {
+                                        text: 'Alpaca',
+                                        icon: IconCopy,
+                                        className: 'row-full',
+                                        onClick: onClickAlpaca,
+                                    }),
                                 ),
                             ),
                         ),
+                        h(MenuItem, {
+                            text: t('PDF'),
+                            icon: IconPDF,
+                            className: 'row-half',
+                            onClick: onClickPdf,
+                        }),
+                        h(MenuItem, {
+                            text: t('Notebook'),
+                            icon: IconNotebook,
+                            className: 'row-half',
+                            onClick: onClickNotebook,
+                        }),
+                        h(MenuItem, {
+                            text: t('Code Files'),
+                            icon: FileCode,
+                            className: 'row-full',
+                            onClick: onClickCodeFiles,
+                        }),
+                        (MessageSelectDialog as any)(
+                            { open: selectOpen, onOpenChange: setSelectOpen },
+                            h(
+                                'div',
+                                { className: selectedTurns > 0 ? 'row-half' : 'row-full' },
+                                h(MenuItem, {
+                                    text: selectedTurns > 0 ? t('Selected Turns', { count: selectedTurns }) : t('Select Messages'),
+                                    icon: IconChecklist,
+                                }),
+                            ),
+                        ),
+                        selectedTurns > 0 && h(MenuItem, {
+                            text: t('Clear Selection'),
+                            icon: IconCross,
+                            className: 'row-half',
+                            onClick: onClickClearSelection,
+                        }),
                         (ExportDialog as any)(
                             { format, open: exportOpen, onOpenChange: setExportOpen },
                             h('div', { className: 'row-full' }, h(MenuItem, { text: t('Export All'), icon: IconZip })),
@@ -0,0 +1,182 @@
+// Import Radix UI components with proper types
+import * as Dialog from '@radix-ui/react-dialog'
+import { h } from 'preact'
+import { useEffect, useState } from 'preact/hooks'
+import { useTranslation } from 'react-i18next'
+import { fetchConversation, getCurrentChatId } from '../api'
+import { clearMessageSelection, getConversationTurns, getMessageSelection, setMessageSelection } from '../utils/message-selection'
+import { CheckBox } from './CheckBox'
+import { IconCross } from './Icons'
+import { useSettingContext } from './SettingContext'
+import type { ConversationNode } from '../api'
+import type { FC } from '../type'
+import type { ConversationTurn } from '../utils/message-selection'
+
+function getNodePreview(node: ConversationNode): string {
+    const content = node.message?.content
+    if (!content) return ''
+
+    let text = ''
+    if ('parts' in content && Array.isArray(content.parts)) {
+        text = content.parts.filter(part => typeof part === 'string').join(' ')
+    }
+    else if ('text' in content && typeof content.text === 'string') {
+        text = content.text
+    }
+    return text.replace(/\s+/g, ' ').trim() || `[${content.content_type}]`
+}
+
+const DialogContent: FC = () => {
+    const { t } = useTranslation()
+    const { exportFullTree } = useSettingContext()
+
+    const [chatId, setChatId] = useState('')
+    const [turns, setTurns] = useState<ConversationTurn[]>([])
+    const [selected, setSelected] = useState<string[]>([])
+    const [from, setFrom] = useState(1)
+    const [to, setTo] = useState(1)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState('')
+
+    useEffect(() => {
+        getCurrentChatId()
+            .then(id => fetchConversation(id, false))
+            .then((conversation) => {
+                const turns = getConversationTurns(conversation)
+                const selection = getMessageSelection(conversation.id)
+                setChatId(conversation.id)
+                setTurns(turns)
+                setSelected(selection
+                    ? turns.filter(turn => selection.has(turn.id)).map(turn => turn.id)
+                    : turns.map(turn => turn.id))
+                setTo(turns.length)
+            })
+            .catch((err) => {
+                console.error('Error loading conversation:', err)
+                setError(err.message || 'Failed to load conversation')
+            })
+            .finally(() => setLoading(false))
+    }, [])
+
+    const selectRange = () => {
+        const start = Math.min(from, to)
+        const end = Math.max(from, to)
+        setSelected(turns.filter(turn => turn.index >= start && turn.index <= end).map(turn => turn.id))
+    }
+
+    const apply = () => {
+        if (selected.length === turns.length) {
+            clearMessageSelection()
+            return
+        }
+        const nodeIds = turns
+            .filter(turn => selected.includes(turn.id))
+            .flatMap(turn => turn.nodes.map(node => node.id))
+        setMessageSelection(chatId, nodeIds, selected.length)
+    }
+
+    const disabled = loading || !!error || turns.length === 0
+
+    return (
+        <>
+            {(Dialog.Title as any)({ className: 'DialogTitle' }, t('Select Messages'))}
+            <p className="mb-3 text-sm text-gray-600 dark:text-gray-300">
+                {t('Select Messages Description')}
+            </p>
+            {exportFullTree && (
+                <p className="mb-3 text-sm text-gray-600 dark:text-gray-300">
+                    {t('Select Messages Full Tree')}
+                </p>
+            )}
+            <div className="flex items-center text-gray-600 dark:text-gray-300 mb-3">
+                {t('Turns')}
+                <input
+                    className="Input ml-2"
+                    type="number"
+                    style={{ flex: 'none', width: 64 }}
+                    min={1}
+                    max={turns.length}
+                    value={from}
+                    disabled={disabled}
+                    onChange={e => setFrom(Number(e.currentTarget.value) || 1)}
+                />
+                <span className="mx-2">-</span>
+                <input
+                    className="Input"
+                    type="number"
+                    style={{ flex: 'none', width: 64 }}
+                    min={1}
+                    max={turns.length}
+                    value={to}
+                    disabled={disabled}
+                    onChange={e => setTo(Number(e.currentTarget.value) || 1)}
+                />
+                <button className="Button green ml-2" disabled={disabled} onClick={selectRange}>
+                    {t('Select Range')}
+                </button>
+            </div>
+            <div className="SelectToolbar">
+                <CheckBox
+                    label={t('Select All')}
+                    disabled={disabled}
+                    checked={selected.length === turns.length}
+                    onCheckedChange={(checked) => {
+                        setSelected(checked ? turns.map(turn => turn.id) : [])
+                    }}
+                />
+            </div>
+            <ul className="SelectList">
+                {loading && <li className="SelectItem">{t('Loading')}...</li>}
+                {error && <li className="SelectItem">{t('Error')}: {error}</li>}
+                {!loading && !error
+                && turns.map(turn => (
+                    <li className="SelectItem" key={turn.id}>
+                        <CheckBox
+                            label={`${turn.index}. ${getNodePreview(turn.nodes[0])}`}
+                            checked={selected.includes(turn.id)}
+                            onCheckedChange={(checked) => {
+                                setSelected(checked
+                                    ? [...selected, turn.id]
+                                    : selected.filter(id => id !== turn.id),
+                                )
+                            }}
+                        />
+                    </li>
+                ))}
+            </ul>
+            <div className="flex mt-6" style={{ justifyContent: 'flex-end' }}>
+                {(Dialog.Close as any)(
+                    { asChild: true },
+                    <button className="Button green" disabled={disabled || selected.length === 0} onClick={apply}>
+                        {t('Save')}
+                    </button>,
+                )}
+            </div>
+            {(Dialog.Close as any)({ asChild: true }, h('button', { 'className': 'IconButton CloseButton', 'aria-label': 'Close' }, h(IconCross, null)))}
+        </>
+    )
+}
+
+interface MessageSelectDialogProps {
+    open: boolean
+    onOpenChange: (value: boolean) => void
+}
+
+export const MessageSelectDialog: FC<MessageSelectDialogProps> = ({ open, onOpenChange, children }) => {
+    return (
+        (Dialog.Root as any)(
+            { open, onOpenChange },
+            (Dialog.Trigger as any)(
+                { asChild: true },
+                children,
+            ),
+            (Dialog.Portal as any)(
+                (Dialog.Overlay as any)({ className: 'DialogOverlay' }),
+                (Dialog.Content as any)(
+                    { className: 'DialogContent' },
+                    open && (DialogContent as any)({}),
+                ),
+            ),
+        )
+    )
+}
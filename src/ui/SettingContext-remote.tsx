@@ -44,7 +44,7 @@ export function ImageHandlingProvider({ children }: { children: React.ReactNode
 
             // Load strategy
             const strategy = ScriptStorage.get<ImageHandlingStrategy>(KEY_IMAGE_HANDLING_STRATEGY)
-            if (strategy && ['embed_base64', 'text_marker', 'separate_files'].includes(strategy)) {
+            if (strategy && ['embed_base64', 'text_marker', 'separate_files', 'link_original'].includes(strategy)) {
                 loadedSettings.strategy = strategy
             }
 
@@ -1,22 +1,47 @@
 import { createContext, useContext } from 'preact/compat'
 import { useCallback } from 'preact/hooks'
 import {
+    KEY_ASSISTANT_LABEL,
     KEY_EXPORT_ALL_LIMIT,
+    KEY_EXPORT_ATTACHMENTS,
+    KEY_EXPORT_AUDIO,
+    KEY_EXPORT_CONTEXT,
+    KEY_EXPORT_FULL_TREE,
+    KEY_EXPORT_OFFLINE_HTML,
+    KEY_EXPORT_TOOL_CALLS,
     KEY_FILENAME_FORMAT,
+    KEY_FINETUNE_CONTEXT,
+    KEY_FINETUNE_MAX_TOKENS,
+    KEY_FINETUNE_TOOLS,
+    KEY_FINETUNE_VALIDATION,
     KEY_IMAGE_CUSTOM_MARKER,
     KEY_IMAGE_HANDLING_STRATEGY,
     KEY_IMAGE_INCLUDE_METADATA,
     KEY_IMAGE_MAX_SIZE,
+    KEY_IMAGE_OUTPUT_FORMAT,
     KEY_IMAGE_QUALITY,
     KEY_META_ENABLED,
     KEY_META_LIST,
+    KEY_SCREENSHOT_FORMAT,
+    KEY_SCREENSHOT_PADDING,
+    KEY_SCREENSHOT_SCALE,
+    KEY_SCREENSHOT_SEGMENT_HEIGHT,
+    KEY_SCREENSHOT_SOURCE,
+    KEY_SCREENSHOT_SPLIT,
+    KEY_SCREENSHOT_THEME,
+    KEY_SCREENSHOT_WIDTH,
+    KEY_TEMPLATE_HTML,
+    KEY_TEMPLATE_MARKDOWN,
     KEY_TIMESTAMP_24H,
     KEY_TIMESTAMP_ENABLED,
     KEY_TIMESTAMP_HTML,
     KEY_TIMESTAMP_MARKDOWN,
+    KEY_USER_LABEL,
 } from '../constants'
+import { defaultAssistantLabel, defaultUserLabel } from '../exporter/author'
 import { useGMStorage } from '../hooks/useGMStorage'
-import type { ImageHandlingStrategy } from '../exporter/image-types'
+import type { ScreenshotFormat, ScreenshotSource, ScreenshotTheme } from '../exporter/image'
+import type { ImageHandlingStrategy, ImageOutputFormat } from '../exporter/image-types'
 import type { FC } from 'preact/compat'
 
 const defaultFormat = 'ChatGPT-{title}'
@@ -27,8 +52,23 @@ const defaultImageHandlingStrategy = 'embed_base64' as ImageHandlingStrategy
 const defaultCustomMarkerText = '[Image Omitted]'
 const defaultImageQuality = 85
 const defaultMaxImageSize = 2048
+const defaultImageOutputFormat = 'original' as ImageOutputFormat
 const defaultIncludeImageMetadata = true
 
+// Default screenshot settings
+const defaultScreenshotSource = 'page' as ScreenshotSource
+const defaultScreenshotWidth = 800
+const defaultScreenshotTheme = 'auto' as ScreenshotTheme
+const defaultScreenshotPadding = 24
+const defaultScreenshotScale = 2
+const defaultScreenshotFormat = 'png' as ScreenshotFormat
+const defaultScreenshotSegmentHeight = 2000
+
+// Default fine-tuning settings
+const defaultFineTuneContext = true
+const defaultFineTuneMaxTokens = 0
+const defaultFineTuneValidation = 0
+
 export interface ExportMeta {
     name: string
     value: string
@@ -58,6 +98,26 @@ const SettingContext = createContext({
     setExportMetaList: (_: ExportMeta[]) => {},
     exportAllLimit: defaultExportAllLimit,
     setExportAllLimit: (_: number) => {},
+    exportFullTree: false,
+    setExportFullTree: (_: boolean) => {},
+    exportContext: false,
+    setExportContext: (_: boolean) => {},
+    exportAttachments: false,
+    setExportAttachments: (_: boolean) => {},
+    exportAudio: false,
+    setExportAudio: (_: boolean) => {},
+    exportToolCalls: false,
+    setExportToolCalls: (_: boolean) => {},
+    exportOfflineHtml: false,
+    setExportOfflineHtml: (_: boolean) => {},
+    markdownTemplate: '',
+    setMarkdownTemplate: (_: string) => {},
+    htmlTemplate: '',
+    setHtmlTemplate: (_: string) => {},
+    userLabel: defaultUserLabel,
+    setUserLabel: (_: string) => {},
+    assistantLabel: defaultAssistantLabel,
+    setAssistantLabel: (_: string) => {},
 
     // Image handling settings
     imageHandlingStrategy: defaultImageHandlingStrategy,
@@ -68,9 +128,39 @@ const SettingContext = createContext({
     setImageQuality: (_: number) => {},
     imageMaxSize: defaultMaxImageSize,
     setImageMaxSize: (_: number) => {},
+    imageOutputFormat: defaultImageOutputFormat,
+    setImageOutputFormat: (_: ImageOutputFormat) => {},
     imageIncludeMetadata: defaultIncludeImageMetadata,
     setImageIncludeMetadata: (_: boolean) => {},
 
+    // Screenshot settings
+    screenshotSource: defaultScreenshotSource,
+    setScreenshotSource: (_: ScreenshotSource) => {},
+    screenshotWidth: defaultScreenshotWidth,
+    setScreenshotWidth: (_: number) => {},
+    screenshotTheme: defaultScreenshotTheme,
+    setScreenshotTheme: (_: ScreenshotTheme) => {},
+    screenshotPadding: defaultScreenshotPadding,
+    setScreenshotPadding: (_: number) => {},
+    screenshotScale: defaultScreenshotScale,
+    setScreenshotScale: (_: number) => {},
+    screenshotFormat: defaultScreenshotFormat,
+    setScreenshotFormat: (_: ScreenshotFormat) => {},
+    screenshotSplit: false,
+    setScreenshotSplit: (_: boolean) => {},
+    screenshotSegmentHeight: defaultScreenshotSegmentHeight,
+    setScreenshotSegmentHeight: (_: number) => {},
+
+    // Fine-tuning settings
+    fineTuneContext: defaultFineTuneContext,
+    setFineTuneContext: (_: boolean) => {},
+    fineTuneTools: false,
+    setFineTuneTools: (_: boolean) => {},
+    fineTuneMaxTokens: defaultFineTuneMaxTokens,
+    setFineTuneMaxTokens: (_: number) => {},
+    fineTuneValidation: defaultFineTuneValidation,
+    setFineTuneValidation: (_: number) => {},
+
     resetDefault: () => {},
 })
 
@@ -86,6 +176,16 @@ export const SettingProvider: FC = ({ children }) => {
 
     const [exportMetaList, setExportMetaList] = useGMStorage(KEY_META_LIST, defaultExportMetaList)
     const [exportAllLimit, setExportAllLimit] = useGMStorage(KEY_EXPORT_ALL_LIMIT, defaultExportAllLimit)
+    const [exportFullTree, setExportFullTree] = useGMStorage(KEY_EXPORT_FULL_TREE, false)
+    const [exportContext, setExportContext] = useGMStorage(KEY_EXPORT_CONTEXT, false)
+    const [exportAttachments, setExportAttachments] = useGMStorage(KEY_EXPORT_ATTACHMENTS, false)
+    const [exportAudio, setExportAudio] = useGMStorage(KEY_EXPORT_AUDIO, false)
+    const [exportToolCalls, setExportToolCalls] = useGMStorage(KEY_EXPORT_TOOL_CALLS, false)
+    const [exportOfflineHtml, setExportOfflineHtml] = useGMStorage(KEY_EXPORT_OFFLINE_HTML, false)
+    const [markdownTemplate, setMarkdownTemplate] = useGMStorage(KEY_TEMPLATE_MARKDOWN, '')
+    const [htmlTemplate, setHtmlTemplate] = useGMStorage(KEY_TEMPLATE_HTML, '')
+    const [userLabel, setUserLabel] = useGMStorage(KEY_USER_LABEL, defaultUserLabel)
+    const [assistantLabel, setAssistantLabel] = useGMStorage(KEY_ASSISTANT_LABEL, defaultAssistantLabel)
 
     // Image handling settings
     const [imageHandlingStrategy, setImageHandlingStrategy] = useGMStorage(
@@ -104,35 +204,105 @@ export const SettingProvider: FC = ({ children }) => {
         KEY_IMAGE_MAX_SIZE,
         defaultMaxImageSize,
     )
+    const [imageOutputFormat, setImageOutputFormat] = useGMStorage(
+        KEY_IMAGE_OUTPUT_FORMAT,
+        defaultImageOutputFormat,
+    )
     const [imageIncludeMetadata, setImageIncludeMetadata] = useGMStorage(
         KEY_IMAGE_INCLUDE_METADATA,
         defaultIncludeImageMetadata,
     )
 
+    // Screenshot settings
+    const [screenshotSource, setScreenshotSource] = useGMStorage(KEY_SCREENSHOT_SOURCE, defaultScreenshotSource)
+    const [screenshotWidth, setScreenshotWidth] = useGMStorage(KEY_SCREENSHOT_WIDTH, defaultScreenshotWidth)
+    const [screenshotTheme, setScreenshotTheme] = useGMStorage(KEY_SCREENSHOT_THEME, defaultScreenshotTheme)
+    const [screenshotPadding, setScreenshotPadding] = useGMStorage(KEY_SCREENSHOT_PADDING, defaultScreenshotPadding)
+    const [screenshotScale, setScreenshotScale] = useGMStorage(KEY_SCREENSHOT_SCALE, defaultScreenshotScale)
+    const [screenshotFormat, setScreenshotFormat] = useGMStorage(KEY_SCREENSHOT_FORMAT, defaultScreenshotFormat)
+    const [screenshotSplit, setScreenshotSplit] = useGMStorage(KEY_SCREENSHOT_SPLIT, false)
+    const [screenshotSegmentHeight, setScreenshotSegmentHeight] = useGMStorage(KEY_SCREENSHOT_SEGMENT_HEIGHT, defaultScreenshotSegmentHeight)
+
+    // Fine-tuning settings
+    const [fineTuneContext, setFineTuneContext] = useGMStorage(KEY_FINETUNE_CONTEXT, defaultFineTuneContext)
+    const [fineTuneTools, setFineTuneTools] = useGMStorage(KEY_FINETUNE_TOOLS, false)
+    const [fineTuneMaxTokens, setFineTuneMaxTokens] = useGMStorage(KEY_FINETUNE_MAX_TOKENS, defaultFineTuneMaxTokens)
+    const [fineTuneValidation, setFineTuneValidation] = useGMStorage(KEY_FINETUNE_VALIDATION, defaultFineTuneValidation)
+
     const resetDefault = useCallback(() => {
         setFormat(defaultFormat)
         setEnableTimestamp(false)
         setEnableMeta(false)
         setExportMetaList(defaultExportMetaList)
         setExportAllLimit(defaultExportAllLimit)
+        setExportFullTree(false)
+        setExportContext(false)
+        setExportAttachments(false)
+        setExportAudio(false)
+        setExportToolCalls(false)
+        setExportOfflineHtml(false)
+        setMarkdownTemplate('')
+        setHtmlTemplate('')
+        setUserLabel(defaultUserLabel)
+        setAssistantLabel(defaultAssistantLabel)
 
         // Reset image handling settings
         setImageHandlingStrategy(defaultImageHandlingStrategy)
         setImageCustomMarker(defaultCustomMarkerText)
         setImageQuality(defaultImageQuality)
         setImageMaxSize(defaultMaxImageSize)
+        setImageOutputFormat(defaultImageOutputFormat)
         setImageIncludeMetadata(defaultIncludeImageMetadata)
+
+        // Reset screenshot settings
+        setScreenshotSource(defaultScreenshotSource)
+        setScreenshotWidth(defaultScreenshotWidth)
+        setScreenshotTheme(defaultScreenshotTheme)
+        setScreenshotPadding(defaultScreenshotPadding)
+        setScreenshotScale(defaultScreenshotScale)
+        setScreenshotFormat(defaultScreenshotFormat)
+        setScreenshotSplit(false)
+        setScreenshotSegmentHeight(defaultScreenshotSegmentHeight)
+
+        // Reset fine-tuning settings
+        setFineTuneContext(defaultFineTuneContext)
+        setFineTuneTools(false)
+        setFineTuneMaxTokens(defaultFineTuneMaxTokens)
+        setFineTuneValidation(defaultFineTuneValidation)
     }, [
         setFormat,
         setEnableTimestamp,
         setEnableMeta,
         setExportMetaList,
         setExportAllLimit,
+        setExportFullTree,
+        setExportContext,
+        setExportAttachments,
+        setExportAudio,
+        setExportToolCalls,
+        setExportOfflineHtml,
+        setMarkdownTemplate,
+        setHtmlTemplate,
+        setUserLabel,
+        setAssistantLabel,
         setImageHandlingStrategy,
         setImageCustomMarker,
         setImageQuality,
         setImageMaxSize,
+        setImageOutputFormat,
         setImageIncludeMetadata,
+        setScreenshotSource,
+        setScreenshotWidth,
+        setScreenshotTheme,
+        setScreenshotPadding,
+        setScreenshotScale,
+        setScreenshotFormat,
+        setScreenshotSplit,
+        setScreenshotSegmentHeight,
+        setFineTuneContext,
+        setFineTuneTools,
+        setFineTuneMaxTokens,
+        setFineTuneValidation,
     ])
 
     return (
@@ -157,6 +327,26 @@ export const SettingProvider: FC = ({ children }) => {
 
                 exportAllLimit,
                 setExportAllLimit,
+                exportFullTree,
+                setExportFullTree,
+                exportContext,
+                setExportContext,
+                exportAttachments,
+                setExportAttachments,
+                exportAudio,
+                setExportAudio,
+                exportToolCalls,
+                setExportToolCalls,
+                exportOfflineHtml,
+                setExportOfflineHtml,
+                markdownTemplate,
+                setMarkdownTemplate,
+                htmlTemplate,
+                setHtmlTemplate,
+                userLabel,
+                setUserLabel,
+                assistantLabel,
+                setAssistantLabel,
 
                 // Image handling settings
                 imageHandlingStrategy,
@@ -167,9 +357,39 @@ export const SettingProvider: FC = ({ children }) => {
                 setImageQuality,
                 imageMaxSize,
                 setImageMaxSize,
+                imageOutputFormat,
+                setImageOutputFormat,
                 imageIncludeMetadata,
                 setImageIncludeMetadata,
 
+                // Screenshot settings
+                screenshotSource,
+                setScreenshotSource,
+                screenshotWidth,
+                setScreenshotWidth,
+                screenshotTheme,
+                setScreenshotTheme,
+                screenshotPadding,
+                setScreenshotPadding,
+                screenshotScale,
+                setScreenshotScale,
+                screenshotFormat,
+                setScreenshotFormat,
+                screenshotSplit,
+                setScreenshotSplit,
+                screenshotSegmentHeight,
+                setScreenshotSegmentHeight,
+
+                // Fine-tuning settings
+                fineTuneContext,
+                setFineTuneContext,
+                fineTuneTools,
+                setFineTuneTools,
+                fineTuneMaxTokens,
+                setFineTuneMaxTokens,
+                fineTuneValidation,
+                setFineTuneValidation,
+
                 resetDefault,
             }}
         >
@@ -1,11 +1,15 @@
 import * as Dialog from '@radix-ui/react-dialog'
+import { useState } from 'preact/hooks'
 import { useTranslation } from 'react-i18next'
 import sanitize from 'sanitize-filename'
 import { baseUrl } from '../constants'
+import { defaultHtmlTemplate } from '../exporter/html'
+import { defaultMarkdownTemplate } from '../exporter/markdown'
 import { useTitle } from '../hooks/useTitle'
 import { LOCALES } from '../i18n'
-import { getChatIdFromUrl } from '../page'
+import { getChatIdFromUrl, getUserName } from '../page'
 import { getFileNameWithFormat } from '../utils/download'
+import { getTemplateError } from '../utils/template'
 import { timestamp as _timestamp, dateStr, unixTimestampToISOString } from '../utils/utils'
 import { IconCross, IconTrash } from './Icons'
 import { useSettingContext } from './SettingContext'
@@ -36,12 +40,37 @@ export const SettingDialog: FC<SettingDialogProps> = ({
         enableMeta, setEnableMeta,
         exportMetaList, setExportMetaList,
         exportAllLimit, setExportAllLimit,
+        exportFullTree, setExportFullTree,
+        exportContext, setExportContext,
+        exportAttachments, setExportAttachments,
+        exportAudio, setExportAudio,
+        exportToolCalls, setExportToolCalls,
+        exportOfflineHtml, setExportOfflineHtml,
+        markdownTemplate, setMarkdownTemplate,
+        htmlTemplate, setHtmlTemplate,
+        userLabel, setUserLabel,
+        assistantLabel, setAssistantLabel,
         // Image handling settings
         imageHandlingStrategy, setImageHandlingStrategy,
         imageCustomMarker, setImageCustomMarker,
         imageQuality, setImageQuality,
         imageMaxSize, setImageMaxSize,
+        imageOutputFormat, setImageOutputFormat,
         imageIncludeMetadata, setImageIncludeMetadata,
+        // Screenshot settings
+        screenshotSource, setScreenshotSource,
+        screenshotWidth, setScreenshotWidth,
+        screenshotTheme, setScreenshotTheme,
+        screenshotPadding, setScreenshotPadding,
+        screenshotScale, setScreenshotScale,
+        screenshotFormat, setScreenshotFormat,
+        screenshotSplit, setScreenshotSplit,
+        screenshotSegmentHeight, setScreenshotSegmentHeight,
+        // Fine-tuning settings
+        fineTuneContext, setFineTuneContext,
+        fineTuneTools, setFineTuneTools,
+        fineTuneMaxTokens, setFineTuneMaxTokens,
+        fineTuneValidation, setFineTuneValidation,
         /* eslint-enable pionxzh/consistent-list-newline */
     } = useSettingContext()
     const { t, i18n } = useTranslation()
@@ -50,6 +79,7 @@ export const SettingDialog: FC<SettingDialogProps> = ({
     const timestamp = _timestamp()
     const title = sanitize(_title).replace(/\s+/g, '_')
     const chatId = getChatIdFromUrl() || 'this-is-a-mock-chat-id'
+    const userName = getUserName()
     const now = Date.now() / 1000
     const createTime = now
     const updateTime = now
@@ -57,6 +87,11 @@ export const SettingDialog: FC<SettingDialogProps> = ({
 
     const source = `${baseUrl}/${chatId}`
 
+    const [templateFormat, setTemplateFormat] = useState<'Markdown' | 'HTML'>('Markdown')
+    const template = templateFormat === 'Markdown' ? markdownTemplate : htmlTemplate
+    const setTemplate = templateFormat === 'Markdown' ? setMarkdownTemplate : setHtmlTemplate
+    const templateError = getTemplateError(template)
+
     return (
         <Dialog.Root
             open={open}
@@ -117,6 +152,31 @@ export const SettingDialog: FC<SettingDialogProps> = ({
                                 </dd>
                             </div>
                         </div>
+                        <div className="relative flex bg-white dark:bg-white/5 rounded p-4">
+                            <div className="w-full">
+                                <dt className="text-md font-medium text-gray-800 dark:text-white">
+                                    {t('Author Labels')}
+                                </dt>
+                                <dd>
+                                    <p className="text-sm text-gray-700 dark:text-gray-300">
+                                        {t('Available variables')}:{' '}
+                                        <Variable name="{user_name}" title={userName || 'John Doe'} />
+                                        ,{' '}
+                                        <Variable name="{model}" title="GPT-4o" />
+                                        ,{' '}
+                                        <Variable name="{gizmo_name}" title={t('Custom GPT or project name')} />
+                                    </p>
+                                    <div className="flex items-center mt-4">
+                                        <span className="w-24 shrink-0 text-sm text-gray-700 dark:text-gray-300">{t('User')}</span>
+                                        <input className="Input" value={userLabel} onChange={e => setUserLabel(e.currentTarget.value)} />
+                                    </div>
+                                    <div className="flex items-center mt-2">
+                                        <span className="w-24 shrink-0 text-sm text-gray-700 dark:text-gray-300">{t('Assistant')}</span>
+                                        <input className="Input" value={assistantLabel} onChange={e => setAssistantLabel(e.currentTarget.value)} />
+                                    </div>
+                                </dd>
+                            </div>
+                        </div>
                         <div className="relative flex bg-white dark:bg-white/5 rounded p-4">
                             <div>
                                 <dt className="text-md font-medium text-gray-800 dark:text-white">
@@ -264,6 +324,325 @@ export const SettingDialog: FC<SettingDialogProps> = ({
                                 <Toggle label="" checked={enableMeta} onCheckedUpdate={setEnableMeta} />
                             </div>
                         </div>
+                        <div className="relative flex bg-white dark:bg-white/5 rounded p-4">
+                            <div>
+                                <dt className="text-md font-medium text-gray-800 dark:text-white">
+                                    {t('Export All Branches')}
+                                </dt>
+                                <dd className="text-sm text-gray-700 dark:text-gray-300">
+                                    {t('Export All Branches Description')}
+                                </dd>
+                            </div>
+                            <div className="absolute right-4">
+                                <Toggle label="" checked={exportFullTree} onCheckedUpdate={setExportFullTree} />
+                            </div>
+                        </div>
+                        <div className="relative flex bg-white dark:bg-white/5 rounded p-4">
+                            <div>
+                                <dt className="text-md font-medium text-gray-800 dark:text-white">
+                                    {t('Export Context')}
+                                </dt>
+                                <dd className="text-sm text-gray-700 dark:text-gray-300">
+                                    {t('Export Context Description')}
+                                </dd>
+                            </div>
+                            <div className="absolute right-4">
+                                <Toggle label="" checked={exportContext} onCheckedUpdate={setExportContext} />
+                            </div>
+                        </div>
+                        <div className="relative flex bg-white dark:bg-white/5 rounded p-4">
+                            <div>
+                                <dt className="text-md font-medium text-gray-800 dark:text-white">
+                                    {t('Download Attachments')}
+                                </dt>
+                                <dd className="text-sm text-gray-700 dark:text-gray-300">
+                                    {t('Download Attachments Description')}
+                                </dd>
+                            </div>
+                            <div className="absolute right-4">
+                                <Toggle label="" checked={exportAttachments} onCheckedUpdate={setExportAttachments} />
+                            </div>
+                        </div>
+                        <div className="relative flex bg-white dark:bg-white/5 rounded p-4">
+                            <div>
+                                <dt className="text-md font-medium text-gray-800 dark:text-white">
+                                    {t('Export Voice Audio')}
+                                </dt>
+                                <dd className="text-sm text-gray-700 dark:text-gray-300">
+                                    {t('Export Voice Audio Description')}
+                                </dd>
+                            </div>
+                            <div className="absolute right-4">
+                                <Toggle label="" checked={exportAudio} onCheckedUpdate={setExportAudio} />
+                            </div>
+                        </div>
+                        <div className="relative flex bg-white dark:bg-white/5 rounded p-4">
+                            <div>
+                                <dt className="text-md font-medium text-gray-800 dark:text-white">
+                                    {t('Export Tool Calls')}
+                                </dt>
+                                <dd className="text-sm text-gray-700 dark:text-gray-300">
+                                    {t('Export Tool Calls Description')}
+                                </dd>
+                            </div>
+                            <div className="absolute right-4">
+                                <Toggle label="" checked={exportToolCalls} onCheckedUpdate={setExportToolCalls} />
+                            </div>
+                        </div>
+                        <div className="relative flex bg-white dark:bg-white/5 rounded p-4">
+                            <div>
+                                <dt className="text-md font-medium text-gray-800 dark:text-white">
+                                    {t('Offline HTML')}
+                                </dt>
+                                <dd className="text-sm text-gray-700 dark:text-gray-300">
+                                    {t('Offline HTML Description')}
+                                </dd>
+                            </div>
+                            <div className="absolute right-4">
+                                <Toggle label="" checked={exportOfflineHtml} onCheckedUpdate={setExportOfflineHtml} />
+                            </div>
+                        </div>
+                        <div className="relative flex bg-white dark:bg-white/5 rounded p-4">
+                            <div className="w-full">
+                                <dt className="text-md font-medium text-gray-800 dark:text-white">
+                                    {t('Screenshot')}
+                                </dt>
+                                <dd className="text-sm text-gray-700 dark:text-gray-300">
+                                    {t('Screenshot Description')}
+                                    <div className="flex items-center gap-4 mt-3">
+                                        <select
+                                            className="Select"
+                                            value={screenshotSource}
+                                            onChange={e => setScreenshotSource(e.currentTarget.value as any)}
+                                        >
+                                            <option value="page">{t('Live Page')}</option>
+                                            <option value="html">{t('Exported HTML')}</option>
+                                        </select>
+                                        <select
+                                            className="Select"
+                                            value={screenshotFormat}
+                                            onChange={e => setScreenshotFormat(e.currentTarget.value as any)}
+                                        >
+                                            <option value="png">PNG</option>
+                                            <option value="jpeg">JPEG</option>
+                                            <option value="webp">WebP</option>
+                                        </select>
+                                        {screenshotSource === 'html' && (
+                                            <select
+                                                className="Select"
+                                                value={screenshotTheme}
+                                                onChange={e => setScreenshotTheme(e.currentTarget.value as any)}
+                                            >
+                                                <option value="auto">{t('Current Theme')}</option>
+                                                <option value="light">{t('Light')}</option>
+                                                <option value="dark">{t('Dark')}</option>
+                                            </select>
+                                        )}
+                                    </div>
+                                    {screenshotSource === 'html' && (
+                                        <>
+                                            <label className="block text-xs font-medium mt-3">
+                                                {t('Width')}: {screenshotWidth}px
+                                            </label>
+                                            <input
+                                                type="range"
+                                                min="400"
+                                                max="1600"
+                                                step="40"
+                                                value={screenshotWidth}
+                                                onChange={e => setScreenshotWidth(Number(e.currentTarget.value))}
+                                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 mt-1"
+                                            />
+                                            <label className="block text-xs font-medium mt-3">
+                                                {t('Padding')}: {screenshotPadding}px
+                                            </label>
+                                            <input
+                                                type="range"
+                                                min="0"
+                                                max="96"
+                                                step="8"
+                                                value={screenshotPadding}
+                                                onChange={e => setScreenshotPadding(Number(e.currentTarget.value))}
+                                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 mt-1"
+                                            />
+                                            <label className="block text-xs font-medium mt-3">
+                                                {t('Scale')}: {screenshotScale}x
+                                            </label>
+                                            <input
+                                                type="range"
+                                                min="1"
+                                                max="4"
+                                                step="0.5"
+                                                value={screenshotScale}
+                                                onChange={e => setScreenshotScale(Number(e.currentTarget.value))}
+                                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 mt-1"
+                                            />
+                                        </>
+                                    )}
+                                    <div className="mt-3">
+                                        <Toggle
+                                            label={t('Split into pages')}
+                                            checked={screenshotSplit}
+                                            onCheckedUpdate={setScreenshotSplit}
+                                        />
+                                    </div>
+                                    {screenshotSplit && (
+                                        <>
+                                            <label className="block text-xs font-medium mt-3">
+                                                {t('Page Height')}: {screenshotSegmentHeight}px
+                                            </label>
+                                            <input
+                                                type="range"
+                                                min="1000"
+                                                max="8000"
+                                                step="500"
+                                                value={screenshotSegmentHeight}
+                                                onChange={e => setScreenshotSegmentHeight(Number(e.currentTarget.value))}
+                                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 mt-1"
+                                            />
+                                            <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                                                {t('Split into pages Description')}
+                                            </p>
+                                        </>
+                                    )}
+                                </dd>
+                            </div>
+                        </div>
+                        <div className="relative flex bg-white dark:bg-white/5 rounded p-4">
+                            <div className="w-full">
+                                <dt className="text-md font-medium text-gray-800 dark:text-white">
+                                    {t('Fine-tuning')}
+                                </dt>
+                                <dd className="text-sm text-gray-700 dark:text-gray-300">
+                                    {t('Fine-tuning Description')}
+                                    <div className="flex flex-col gap-2 mt-3">
+                                        <Toggle
+                                            label={t('Include Context')}
+                                            checked={fineTuneContext}
+                                            onCheckedUpdate={setFineTuneContext}
+                                        />
+                                        <Toggle
+                                            label={t('Include Tool Calls')}
+                                            checked={fineTuneTools}
+                                            onCheckedUpdate={setFineTuneTools}
+                                        />
+                                    </div>
+                                    <label className="block text-xs font-medium mt-3">
+                                        {t('Token Budget')}: {fineTuneMaxTokens > 0 ? fineTuneMaxTokens : t('Unlimited')}
+                                    </label>
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max="64000"
+                                        step="1000"
+                                        value={fineTuneMaxTokens}
+                                        onChange={e => setFineTuneMaxTokens(Number(e.currentTarget.value))}
+                                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 mt-1"
+                                    />
+                                    <label className="block text-xs font-medium mt-3">
+                                        {t('Validation Split')}: {fineTuneValidation}%
+                                    </label>
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max="50"
+                                        step="5"
+                                        value={fineTuneValidation}
+                                        onChange={e => setFineTuneValidation(Number(e.currentTarget.value))}
+                                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 mt-1"
+                                    />
+                                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                                        {t('Fine-tuning Budget Description')}
+                                    </p>
+                                </dd>
+                            </div>
+                        </div>
+                        <div className="relative flex bg-white dark:bg-white/5 rounded p-4">
+                            <div className="w-full">
+                                <dt className="text-md font-medium text-gray-800 dark:text-white">
+                                    {t('Export Template')}
+                                </dt>
+                                <dd className="text-sm text-gray-700 dark:text-gray-300">
+                                    {t('Export Template Description')}
+                                    <p className="mt-2">
+                                        {t('Available variables')}:{' '}
+                                        <Variable name="{{title}}" title={title} />
+                                        ,{' '}
+                                        <Variable name="{{date}}" title={date} />
+                                        ,{' '}
+                                        <Variable name="{{timestamp}}" title={timestamp} />
+                                        ,{' '}
+                                        <Variable name="{{source}}" title={source} />
+                                        ,{' '}
+                                        <Variable name="{{model}}" title="ChatGPT-3.5" />
+                                        ,{' '}
+                                        <Variable name="{{model_name}}" title="text-davinci-002-render-sha" />
+                                        ,{' '}
+                                        <Variable name="{{create_time}}" title="2023-04-10T21:45:35.027Z" />
+                                        ,{' '}
+                                        <Variable name="{{update_time}}" title="2023-04-10T21:45:35.027Z" />
+                                        ,{' '}
+                                        <Variable name="{{metadata}}" title={t('Export Metadata')} />
+                                        ,{' '}
+                                        <Variable name="{{context}}" title={t('Export Context')} />
+                                        ,{' '}
+                                        <Variable name="{{content}}" title={t('All messages in the default layout')} />
+                                        ,{' '}
+                                        <Variable name="{{message_count}}" title="12" />
+                                    </p>
+                                    <p className="mt-1">
+                                        {t('Message variables')}{' ('}
+                                        <Variable name="{{#messages}}...{{/messages}}" title={t('Repeated for each message')} />
+                                        ):{' '}
+                                        <Variable name="{{index}}" title="1" />
+                                        ,{' '}
+                                        <Variable name="{{role}}" title="user / assistant / tool" />
+                                        ,{' '}
+                                        <Variable name="{{author}}" title="ChatGPT" />
+                                        ,{' '}
+                                        <Variable name="{{content}}" title={t('Message content')} />
+                                        ,{' '}
+                                        <Variable name="{{time}}" title="08:12 PM" />
+                                        ,{' '}
+                                        <Variable name="{{time_html}}" title={t('Timestamp of the default layout')} />
+                                        ,{' '}
+                                        <Variable name="{{create_time}}" title="2023-04-10T21:45:35.027Z" />
+                                        ,{' '}
+                                        <Variable name="{{model}}" title="gpt-4o" />
+                                        ,{' '}
+                                        <Variable name="{{#is_user}}...{{/is_user}}" title={t('Rendered only for user messages')} />
+                                        ,{' '}
+                                        <Variable name="{{#is_assistant}}...{{/is_assistant}}" title={t('Rendered only for ChatGPT messages')} />
+                                    </p>
+                                    <div className="flex items-center gap-2 mt-3">
+                                        <select
+                                            className="Select"
+                                            value={templateFormat}
+                                            onChange={e => setTemplateFormat(e.currentTarget.value as 'Markdown' | 'HTML')}
+                                        >
+                                            <option value="Markdown">Markdown</option>
+                                            <option value="HTML">HTML</option>
+                                        </select>
+                                        <button
+                                            className="border border-[#6f6e77] dark:border-gray-[#86858d] rounded-md px-3 py-1 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition ease-in-out duration-150"
+                                            onClick={() => setTemplate(templateFormat === 'Markdown' ? defaultMarkdownTemplate : defaultHtmlTemplate)}
+                                        >
+                                            {t('Load Default Template')}
+                                        </button>
+                                    </div>
+                                    <textarea
+                                        className="Textarea mt-2"
+                                        value={template}
+                                        placeholder={t('Export Template Placeholder')}
+                                        spellCheck={false}
+                                        onChange={e => setTemplate(e.currentTarget.value)}
+                                    />
+                                    {templateError && (
+                                        <p className="mt-1 text-red-500">{templateError}</p>
+                                    )}
+                                </dd>
+                            </div>
+                        </div>
                         <div className="relative flex bg-white dark:bg-white/5 rounded p-4">
                             <div>
                                 <dt className="text-md font-medium text-gray-800 dark:text-white">
@@ -351,10 +730,31 @@ export const SettingDialog: FC<SettingDialogProps> = ({
                                                 </p>
                                             </div>
                                         </div>
+
+                                        {/* Option 4: Link Original URLs */}
+                                        <div className="flex items-start">
+                                            <input
+                                                type="radio"
+                                                id="link-original"
+                                                name="image-handling-strategy"
+                                                value="link_original"
+                                                checked={imageHandlingStrategy === 'link_original'}
+                                                onChange={e => setImageHandlingStrategy(e.currentTarget.value as any)}
+                                                className="mt-1 mr-3"
+                                            />
+                                            <div>
+                                                <label htmlFor="link-original" className="font-medium text-gray-800 dark:text-white">
+                                                    {t('Link Original URLs')}
+                                                </label>
+                                                <p className="text-xs text-gray-600 dark:text-gray-400">
+                                                    {t('Link Original URLs Description')}
+                                                </p>
+                                            </div>
+                                        </div>
                                     </div>
 
-                                    {/* Advanced Options for Separate Files */}
-                                    {imageHandlingStrategy === 'separate_files' && (
+                                    {/* Advanced Options for Embedded and Separate Files */}
+                                    {(imageHandlingStrategy === 'embed_base64' || imageHandlingStrategy === 'separate_files') && (
                                         <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-800 rounded">
                                             <h4 className="text-sm font-medium text-gray-800 dark:text-white mb-3">
                                                 {t('Advanced Options')}
@@ -396,22 +796,46 @@ export const SettingDialog: FC<SettingDialogProps> = ({
                                                 </p>
                                             </div>
 
-                                            {/* Include Image Metadata */}
-                                            <div className="flex items-center mt-2">
-                                                <input
-                                                    type="checkbox"
-                                                    id="include-image-metadata"
-                                                    checked={imageIncludeMetadata}
-                                                    onChange={e => setImageIncludeMetadata(e.currentTarget.checked)}
-                                                    className="mr-2"
-                                                />
-                                                <label htmlFor="include-image-metadata" className="text-xs text-gray-700 dark:text-gray-300">
-                                                    {t('Include Image Metadata')}
+                                            {/* Image Output Format */}
+                                            <div className="mb-3">
+                                                <label htmlFor="image-output-format" className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                                                    {t('Image Format')}
                                                 </label>
+                                                <select
+                                                    id="image-output-format"
+                                                    className="Select mt-1 text-sm"
+                                                    value={imageOutputFormat}
+                                                    onChange={e => setImageOutputFormat(e.currentTarget.value as any)}
+                                                >
+                                                    <option value="original">{t('Original')}</option>
+                                                    <option value="jpeg">JPEG</option>
+                                                    <option value="webp">WebP</option>
+                                                </select>
+                                                <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                                                    {t('Image Format Description')}
+                                                </p>
                                             </div>
-                                            <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 ml-6">
-                                                {t('Include Image Metadata Description')}
-                                            </p>
+
+                                            {/* Include Image Metadata */}
+                                            {imageHandlingStrategy === 'separate_files' && (
+                                                <>
+                                                    <div className="flex items-center mt-2">
+                                                        <input
+                                                            type="checkbox"
+                                                            id="include-image-metadata"
+                                                            checked={imageIncludeMetadata}
+                                                            onChange={e => setImageIncludeMetadata(e.currentTarget.checked)}
+                                                            className="mr-2"
+                                                        />
+                                                        <label htmlFor="include-image-metadata" className="text-xs text-gray-700 dark:text-gray-300">
+                                                            {t('Include Image Metadata')}
+                                                        </label>
+                                                    </div>
+                                                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 ml-6">
+                                                        {t('Include Image Metadata Description')}
+                                                    </p>
+                                                </>
+                                            )}
                                         </div>
                                     )}
                                 </dd>
@@ -1,5 +1,7 @@
+import { getCodeLanguage } from './text'
 import { jsonlStringify, nonNullable } from './utils'
 import type { ConversationNode, ConversationResult } from '../api'
+import type { AuthorLabels } from '../exporter/author'
 
 interface NameMessage {
     user_name: string
@@ -21,7 +23,7 @@ interface OobaData {
     visible: [string, string][]
 }
 
-function convertMessageToTavern(node: ConversationNode): TavernMessage | null {
+function convertMessageToTavern(node: ConversationNode, labels: AuthorLabels): TavernMessage | null {
     if (!node.message || node.message.content.content_type !== 'text') {
         return null
     }
@@ -31,7 +33,7 @@ function convertMessageToTavern(node: ConversationNode): TavernMessage | null {
     const text = node.message.content.parts.join('\n')
 
     return {
-        name: authorRole === 'assistant' ? 'Assistant' : 'You',
+        name: authorRole === 'assistant' ? labels.assistant : labels.user,
         is_user: authorRole === 'user',
         // This is the opposite of is_user! Not always true.
         is_name: authorRole === 'assistant',
@@ -42,13 +44,13 @@ function convertMessageToTavern(node: ConversationNode): TavernMessage | null {
     }
 }
 
-export function convertToTavern(conversation: ConversationResult): string {
+export function convertToTavern(conversation: ConversationResult, labels: AuthorLabels): string {
     const messages: (NameMessage | TavernMessage)[] = [
         {
-            user_name: 'You',
-            character_name: 'Assistant',
+            user_name: labels.user,
+            character_name: labels.assistant,
         },
-        ...conversation.conversationNodes.map(convertMessageToTavern).filter(nonNullable),
+        ...conversation.conversationNodes.map(node => convertMessageToTavern(node, labels)).filter(nonNullable),
     ]
 
     return jsonlStringify(messages)
@@ -116,3 +118,319 @@ export function convertToOoba(conversation: ConversationResult): string {
 
     return JSON.stringify(oobaData, null, 2)
 }
+
+interface DatasetTurn {
+    role: 'user' | 'assistant'
+    text: string
+}
+
+/**
+ * One conversation in the ShareGPT format
+ */
+export interface ShareGPTConversation {
+    conversations: Array<{ from: 'human' | 'gpt'; value: string }>
+}
+
+/**
+ * One prompt and response pair in the Alpaca format
+ */
+export interface AlpacaRecord {
+    instruction: string
+    input: string
+    output: string
+}
+
+/**
+ * Plain text of a message for the dataset formats. Images become `[image]`
+ * and voice messages their transcription, so every part has a predictable
+ * placeholder. Returns null for messages that are not part of the dialog.
+ */
+function getDatasetText(node: ConversationNode): string | null {
+    const message = node.message
+    if (!message || message.recipient !== 'all') return null
+
+    const { content } = message
+    if (message.author.role === 'tool') {
+        // Only images generated by tools are shown in the conversation
+        if (content.content_type === 'multimodal_text') {
+            const images = content.parts.filter(part => typeof part !== 'string' && part.content_type === 'image_asset_pointer')
+            return images.length > 0 ? images.map(() => '[image]').join('\n') : null
+        }
+        const images = message.metadata?.aggregate_result?.messages?.filter(msg => msg.message_type === 'image') ?? []
+        return images.length > 0 ? images.map(() => '[image]').join('\n') : null
+    }
+
+    switch (content.content_type) {
+        case 'text':
+            return content.parts.join('\n')
+        case 'code':
+            // Keep the language in the fence info string
+            return `\`\`\`${getCodeLanguage(content.language, message.recipient)}\n${content.text}\n\`\`\``
+        case 'multimodal_text':
+            return content.parts.map((part) => {
+                if (typeof part === 'string') return part
+                if (part.content_type === 'image_asset_pointer') return '[image]'
+                if (part.content_type === 'audio_transcription') return part.text
+                return null
+            }).filter(nonNullable).join('\n')
+        default:
+            return null
+    }
+}
+
+/**
+ * The dialog as alternating user and assistant turns. Consecutive messages
+ * of the same side, like tool results, are merged with a blank line.
+ */
+function getDatasetTurns(conversation: ConversationResult): DatasetTurn[] {
+    const turns: DatasetTurn[] = []
+    conversation.conversationNodes.forEach((node) => {
+        const text = getDatasetText(node)?.trim()
+        if (!text) return
+
+        const role = node.message?.author.role === 'user' ? 'user' : 'assistant'
+        const last = turns[turns.length - 1]
+        if (last?.role === role) {
+            last.text += `\n\n${text}`
+        }
+        else {
+            turns.push({ role, text })
+        }
+    })
+    return turns
+}
+
+/**
+ * Returns null when the conversation has no messages
+ */
+export function convertToShareGPT(conversation: ConversationResult): ShareGPTConversation | null {
+    const turns = getDatasetTurns(conversation)
+    if (turns.length === 0) return null
+
+    return {
+        conversations: turns.map(turn => ({
+            from: turn.role === 'user' ? 'human' : 'gpt',
+            value: turn.text,
+        })),
+    }
+}
+
+/**
+ * Every prompt with its response becomes one record. Responses
+ * without a prompt and prompts without a response are left out.
+ */
+export function convertToAlpaca(conversation: ConversationResult): AlpacaRecord[] {
+    const turns = getDatasetTurns(conversation)
+    const records: AlpacaRecord[] = []
+    turns.forEach((turn, index) => {
+        const next = turns[index + 1]
+        if (turn.role !== 'user' || next?.role !== 'assistant') return
+        records.push({ instruction: turn.text, input: '', output: next.text })
+    })
+    return records
+}
+
+export interface FineTuneOptions {
+    /** add system messages and custom instructions as a system message */
+    includeContext: boolean
+    /** keep tool calls and their results as `tool_calls` and `tool` messages */
+    includeTools: boolean
+}
+
+interface FineTuneToolCall {
+    id: string
+    type: 'function'
+    function: {
+        name: string
+        arguments: string
+    }
+}
+
+interface FineTuneMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool'
+    content: string | null
+    tool_calls?: FineTuneToolCall[]
+    tool_call_id?: string
+}
+
+interface FineTuneTool {
+    type: 'function'
+    function: {
+        name: string
+        parameters: { type: 'object' }
+    }
+}
+
+/**
+ * One line of the OpenAI chat fine-tuning format
+ * See https://platform.openai.com/docs/guides/fine-tuning
+ */
+export interface FineTuneExample {
+    messages: FineTuneMessage[]
+    tools?: FineTuneTool[]
+}
+
+function getFineTuneText(node: ConversationNode): string | null {
+    const message = node.message
+    if (!message) return null
+
+    const { content } = message
+    switch (content.content_type) {
+        case 'text':
+            return content.parts.join('\n')
+        case 'multimodal_text':
+            return content.parts.filter(part => typeof part === 'string').join('\n')
+        case 'code':
+            // Code sent to a tool is the raw call argument, code in a response keeps its language
+            return message.recipient === 'all'
+                ? `\`\`\`${getCodeLanguage(content.language)}\n${content.text}\n\`\`\``
+                : content.text
+        case 'execution_output':
+        case 'tether_quote':
+            return content.text
+        case 'tether_browsing_display':
+            return content.result
+        default:
+            return null
+    }
+}
+
+function getFineTuneContext(conversation: ConversationResult): string {
+    const { context } = conversation
+    return [
+        ...context.systemMessages,
+        context.userProfile && `About the user:\n${context.userProfile.trim()}`,
+        context.userInstructions && `Response instructions:\n${context.userInstructions.trim()}`,
+        context.modelMemory && `Model memory:\n${context.modelMemory.trim()}`,
+    ].filter(Boolean).join('\n\n')
+}
+
+/**
+ * Function names may only contain letters, digits, `_` and `-`,
+ * eg. `dalle.text2im` becomes `dalle_text2im`
+ */
+function toFunctionName(recipient: string): string {
+    return recipient.replace(/[^\w-]/g, '_').slice(0, 64)
+}
+
+function toFunctionArguments(text: string): string {
+    try {
+        const value = JSON.parse(text)
+        if (value && typeof value === 'object' && !Array.isArray(value)) return JSON.stringify(value)
+    }
+    catch {
+        // plain code or query
+    }
+    return JSON.stringify({ input: text })
+}
+
+/**
+ * Convert a conversation to the OpenAI chat fine-tuning format.
+ * Returns null when there is no response to train on.
+ */
+export function convertToFineTune(conversation: ConversationResult, options: FineTuneOptions): FineTuneExample | null {
+    const messages: FineTuneMessage[] = []
+    const toolNames = new Set<string>()
+    let pendingCallId: string | null = null
+
+    if (options.includeContext) {
+        const system = getFineTuneContext(conversation)
+        if (system) messages.push({ role: 'system', content: system })
+    }
+
+    conversation.conversationNodes.forEach((node) => {
+        const message = node.message
+        const text = getFineTuneText(node)
+        if (!message || text === null) return
+
+        const role = message.author.role
+        if (role === 'user') {
+            if (text.trim()) messages.push({ role: 'user', content: text })
+        }
+        else if (role === 'assistant' && message.recipient === 'all') {
+            if (text.trim()) messages.push({ role: 'assistant', content: text })
+        }
+        else if (role === 'assistant' && options.includeTools) {
+            const name = toFunctionName(message.recipient)
+            pendingCallId = `call_${messages.length}`
+            toolNames.add(name)
+            messages.push({
+                role: 'assistant',
+                content: null,
+                tool_calls: [{ id: pendingCallId, type: 'function', function: { name, arguments: toFunctionArguments(text) } }],
+            })
+        }
+        else if (role === 'tool' && options.includeTools && pendingCallId) {
+            messages.push({ role: 'tool', tool_call_id: pendingCallId, content: text })
+            pendingCallId = null
+        }
+    })
+
+    // Only assistant messages are trained on, anything after the last response is useless
+    while (messages.length > 0) {
+        const last = messages[messages.length - 1]
+        if (last.role === 'assistant' && !last.tool_calls) break
+        messages.pop()
+    }
+    if (messages.length === 0) return null
+
+    // Drop tool calls that never got a result
+    const answered = new Set(messages.map(m => m.tool_call_id).filter(nonNullable))
+    const result = messages.filter(m => !m.tool_calls || m.tool_calls.every(call => answered.has(call.id)))
+    const usedNames = new Set(result.flatMap(m => m.tool_calls ?? []).map(call => call.function.name))
+
+    const example: FineTuneExample = { messages: result }
+    if (usedNames.size > 0) {
+        example.tools = [...toolNames]
+            .filter(name => usedNames.has(name))
+            .map(name => ({ type: 'function', function: { name, parameters: { type: 'object' } } }))
+    }
+    return example
+}
+
+/**
+ * A rough token count, about 4 characters per token for English text.
+ * Good enough to enforce a budget without shipping a tokenizer.
+ */
+export function estimateTokens(example: FineTuneExample): number {
+    return Math.ceil(JSON.stringify(example).length / 4)
+}
+
+/**
+ * Split the items into a training and a validation set. Each item is
+ * placed by the hash of its id alone, so a conversation lands in the
+ * same set every time, whatever else is exported with it.
+ *
+ * With two items or more both sets get at least one item. A single item
+ * goes to training, and `validationEmpty` tells that a requested
+ * validation set could not be made.
+ */
+export function splitTrainValidation<T>(items: T[], ratio: number, getId: (item: T) => string): { train: T[]; validation: T[]; validationEmpty: boolean } {
+    if (ratio <= 0) return { train: items, validation: [], validationEmpty: false }
+
+    const hashed = items
+        .map(item => ({ item, hash: hashString(getId(item)) / 2 ** 32 }))
+        .sort((a, b) => a.hash - b.hash)
+    const hashCount = hashed.filter(x => x.hash < ratio).length
+    const validationCount = items.length >= 2
+        ? Math.min(Math.max(hashCount, 1), items.length - 1)
+        : 0
+
+    // The lowest hashes are the validation set, the input order is kept in each set
+    const validation = new Set(hashed.slice(0, validationCount).map(x => x.item))
+    return {
+        train: items.filter(item => !validation.has(item)),
+        validation: items.filter(item => validation.has(item)),
+        validationEmpty: validation.size === 0,
+    }
+}
+
+// FNV-1a
+function hashString(text: string): number {
+    let hash = 0x811C9DC5
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+}
@@ -0,0 +1,51 @@
+import { KEY_EXPORT_LEDGER } from '../constants'
+import { ScriptStorage } from './storage'
+
+/**
+ * Map of conversation id to the `update_time` (unix seconds) it
+ * had when it was last exported.
+ */
+export type ExportLedger = Record<string, number>
+
+interface LedgerEntry {
+    id: string
+    update_time?: number | string
+}
+
+/**
+ * The conversation list API returns ISO strings while the conversation
+ * API returns unix timestamps with fractions. Normalize both to seconds.
+ */
+function toUnixSeconds(time: number | string | undefined): number | null {
+    if (time === undefined || time === null || time === '') return null
+    const seconds = typeof time === 'number' ? time : Date.parse(time) / 1000
+    return Number.isFinite(seconds) ? Math.floor(seconds) : null
+}
+
+export function getExportLedger(): ExportLedger {
+    return ScriptStorage.get<ExportLedger>(KEY_EXPORT_LEDGER) ?? {}
+}
+
+export function recordExports(entries: LedgerEntry[]) {
+    const ledger = getExportLedger()
+    entries.forEach(({ id, update_time }) => {
+        const updateTime = toUnixSeconds(update_time)
+        if (updateTime !== null) ledger[id] = updateTime
+    })
+    ScriptStorage.set(KEY_EXPORT_LEDGER, ledger)
+}
+
+/**
+ * A conversation is considered changed when it has never been exported,
+ * or when it has been updated since the last export. Conversations
+ * without `update_time` are always treated as changed.
+ */
+export function isChangedSinceLastExport(ledger: ExportLedger, entry: LedgerEntry): boolean {
+    const exportedTime = ledger[entry.id]
+    if (exportedTime === undefined) return true
+
+    const updateTime = toUnixSeconds(entry.update_time)
+    if (updateTime === null) return true
+
+    return updateTime > exportedTime
+}
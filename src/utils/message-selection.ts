@@ -0,0 +1,128 @@
+import { isVisibleNode } from '../api'
+import type { ApiConversationWithId, ConversationNode } from '../api'
+
+/**
+ * A prompt with the responses and tool calls that follow it,
+ * matching a question and answer pair on the page.
+ */
+export interface ConversationTurn {
+    /** 1-based position in the conversation */
+    index: number
+    /** id of the first node, usually the prompt */
+    id: string
+    nodes: ConversationNode[]
+}
+
+interface MessageSelection {
+    chatId: string
+    /** ids of every node in the selected turns */
+    nodeIds: Set<string>
+    turnCount: number
+}
+
+// The selection only lives for the page session and only
+// applies to the conversation it was made in
+let currentSelection: MessageSelection | null = null
+
+export function setMessageSelection(chatId: string, nodeIds: string[], turnCount: number) {
+    currentSelection = { chatId, nodeIds: new Set(nodeIds), turnCount }
+}
+
+export function clearMessageSelection() {
+    currentSelection = null
+}
+
+/**
+ * Return the selected node ids of a conversation,
+ * or null when the whole conversation should be exported
+ */
+export function getMessageSelection(chatId: string): Set<string> | null {
+    if (!currentSelection || currentSelection.chatId !== chatId) return null
+    return currentSelection.nodeIds
+}
+
+/**
+ * Number of turns selected in a conversation, 0 when it is exported whole
+ */
+export function getSelectedTurnCount(chatId: string | null): number {
+    if (!chatId || !currentSelection || currentSelection.chatId !== chatId) return 0
+    return currentSelection.turnCount
+}
+
+/**
+ * Nodes on the path from the root to `current_node`, root first
+ */
+function getConversationPath(conversation: ApiConversationWithId): ConversationNode[] {
+    const path: ConversationNode[] = []
+    const visited = new Set<string>()
+    let currentNodeId: string | undefined = conversation.current_node
+    while (currentNodeId && !visited.has(currentNodeId)) {
+        visited.add(currentNodeId)
+        const node: ConversationNode | undefined = conversation.mapping[currentNodeId]
+        if (!node) break
+        path.unshift(node)
+        currentNodeId = node.parent
+    }
+    return path
+}
+
+/**
+ * Group the visible messages of the current branch into turns.
+ * A new turn starts at every user message.
+ */
+export function getConversationTurns(conversation: ApiConversationWithId): ConversationTurn[] {
+    const turns: ConversationTurn[] = []
+    getConversationPath(conversation)
+        .filter(node => node.parent !== undefined && node.message && isVisibleNode(node))
+        .forEach((node) => {
+            const last = turns[turns.length - 1]
+            if (last && node.message?.author.role !== 'user') {
+                last.nodes.push(node)
+            }
+            else {
+                turns.push({ index: turns.length + 1, id: node.id, nodes: [node] })
+            }
+        })
+    return turns
+}
+
+/**
+ * Return a copy of the conversation that only contains the turns whose
+ * first node is in `nodeIds`. The kept nodes are chained into a single
+ * branch, custom instructions and system messages are always kept.
+ * The result has no other branches, so a selection turns off full tree mode.
+ */
+export function selectConversationTurns(conversation: ApiConversationWithId, nodeIds: Set<string>): ApiConversationWithId {
+    const keep = new Set(
+        getConversationTurns(conversation)
+            .filter(turn => nodeIds.has(turn.id))
+            .flatMap(turn => turn.nodes.map(node => node.id)),
+    )
+
+    const nodes = getConversationPath(conversation)
+        .filter(node => keep.has(node.id) || node.parent === undefined || !node.message || !isVisibleNode(node))
+    if (nodes.length === 0) return conversation
+
+    const mapping: ApiConversationWithId['mapping'] = {}
+    nodes.forEach((node, index) => {
+        mapping[node.id] = {
+            ...node,
+            parent: index === 0 ? node.parent : nodes[index - 1].id,
+            children: index < nodes.length - 1 ? [nodes[index + 1].id] : [],
+        }
+    })
+
+    return {
+        ...conversation,
+        mapping,
+        current_node: nodes[nodes.length - 1].id,
+    }
+}
+
+/**
+ * Apply the message selection made for this conversation, if any
+ */
+export function applyMessageSelection(conversation: ApiConversationWithId): ApiConversationWithId {
+    const nodeIds = getMessageSelection(conversation.id)
+    return nodeIds ? selectConversationTurns(conversation, nodeIds) : conversation
+}
@@ -0,0 +1,112 @@
+import JSZip from 'jszip'
+import { getMimeType } from '../exporter/image-utils'
+import { validateConversations } from './validate-conversation'
+import type { ConversationValidation } from './validate-conversation'
+import type { ApiConversationWithId } from '../api'
+
+export interface OfficialExport {
+    /** Valid conversations, repaired where possible */
+    conversations: ApiConversationWithId[]
+    /** Problems found in the file, per conversation */
+    reports: ConversationValidation[]
+    /** The "Export data" archive, null when a raw `conversations.json` was given */
+    archive: JSZip | null
+}
+
+// file-service://file-AbC123 or sediment://file_0000abc
+const AssetPointerRegex = /^(?:file-service|sediment):\/\/(.+)$/
+// Files in the archive are prefixed with the file id,
+// eg. `file-AbC123-image.png` or `dalle-generations/file-AbC123-uuid.webp`
+const AssetFileNameRegex = /^(file[-_][\da-z]+)/i
+
+/**
+ * Read `conversations.json` from the official "Export data" archive,
+ * or a raw `conversations.json` file. Returns null when the file is
+ * not a conversation list.
+ */
+export async function readOfficialExport(file: File): Promise<OfficialExport | null> {
+    if (!isZipFile(file)) {
+        const data = JSON.parse(await file.text())
+        return Array.isArray(data) ? { ...validateConversations(data), archive: null } : null
+    }
+
+    const archive = await JSZip.loadAsync(file)
+    const entry = archive.file(/(?:^|\/)conversations\.json$/)[0]
+    if (!entry) return null
+
+    const data = JSON.parse(await entry.async('string'))
+    return Array.isArray(data) ? { ...validateConversations(data), archive } : null
+}
+
+function isZipFile(file: File) {
+    return file.type === 'application/zip'
+        || file.type === 'application/x-zip-compressed'
+        || /\.zip$/i.test(file.name)
+}
+
+// Object urls of the extracted images, kept until the export that uses them is done
+const assetUrlCache = new WeakMap<JSZip, Map<string, string | null>>()
+
+/**
+ * Release the object urls created for the images of an archive,
+ * once an export no longer needs them
+ */
+export function revokeLocalImageAssets(archive: JSZip) {
+    assetUrlCache.get(archive)?.forEach(url => url && URL.revokeObjectURL(url))
+    assetUrlCache.delete(archive)
+}
+
+/**
+ * Return copies of the conversations with `file-service://` and `sediment://`
+ * image pointers replaced by object urls of the images shipped in the archive.
+ * Pointers without a matching file are left untouched.
+ */
+export async function replaceLocalImageAssets(conversations: ApiConversationWithId[], archive: JSZip): Promise<ApiConversationWithId[]> {
+    const entries = new Map<string, JSZip.JSZipObject>()
+    archive.forEach((path, entry) => {
+        if (entry.dir) return
+        const match = path.split('/').pop()?.match(AssetFileNameRegex)
+        if (match && !entries.has(match[1])) entries.set(match[1], entry)
+    })
+
+    const urls = assetUrlCache.get(archive) ?? new Map<string, string | null>()
+    assetUrlCache.set(archive, urls)
+
+    const resolve = async (pointer: string) => {
+        const fileId = pointer.match(AssetPointerRegex)?.[1]
+        if (!fileId) return null
+        if (urls.has(fileId)) return urls.get(fileId)!
+
+        const entry = entries.get(fileId)
+        let url: string | null = null
+        if (entry) {
+            const blob = await entry.async('blob')
+            url = URL.createObjectURL(new Blob([blob], { type: getMimeType(entry.name) }))
+        }
+        urls.set(fileId, url)
+        return url
+    }
+
+    const result = structuredClone(conversations)
+    for (const conversation of result) {
+        for (const node of Object.values(conversation.mapping ?? {})) {
+            const message = node.message
+            if (!message) continue
+
+            if (message.content.content_type === 'multimodal_text' && Array.isArray(message.content.parts)) {
+                for (const part of message.content.parts) {
+                    if (typeof part !== 'object' || part === null || part.content_type !== 'image_asset_pointer') continue
+                    const asset = part as { asset_pointer?: string }
+                    if (typeof asset.asset_pointer !== 'string') continue
+                    asset.asset_pointer = await resolve(asset.asset_pointer) ?? asset.asset_pointer
+                }
+            }
+
+            for (const msg of message.metadata?.aggregate_result?.messages ?? []) {
+                if (msg.message_type !== 'image' || !msg.image_url) continue
+                msg.image_url = await resolve(msg.image_url) ?? msg.image_url
+            }
+        }
+    }
+    return result
+}
@@ -0,0 +1,112 @@
+export type TemplateValue = string | number | boolean | null | undefined | TemplateData[]
+
+export interface TemplateData {
+    [key: string]: TemplateValue
+}
+
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'variable'; name: string; raw: string }
+    | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] }
+
+// {{name}}, {{#name}}, {{^name}} and {{/name}}
+const TagRegex = /\{\{\s*([#/^]?)\s*(\w+)\s*\}\}/g
+
+/**
+ * Render a mustache-like template.
+ *
+ * - `{{name}}` inserts the value as-is, without escaping
+ * - `{{#name}}...{{/name}}` repeats the block for every item of a list with
+ *   the item fields in scope, or renders it once when the value is truthy
+ * - `{{^name}}...{{/name}}` renders the block when the value is falsy or an empty list
+ *
+ * Placeholders that are not defined in any scope are kept untouched.
+ * Throws when the sections are not balanced.
+ */
+export function renderTemplate(template: string, data: TemplateData): string {
+    return renderNodes(parseTemplate(template), [data])
+}
+
+/**
+ * Return the syntax error of a template, or null when it can be rendered
+ */
+export function getTemplateError(template: string): string | null {
+    try {
+        parseTemplate(template)
+        return null
+    }
+    catch (error) {
+        return (error as Error).message
+    }
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+    const root: TemplateNode[] = []
+    const stack: Array<{ name: string; children: TemplateNode[] }> = [{ name: '', children: root }]
+    let lastIndex = 0
+
+    for (const match of template.matchAll(TagRegex)) {
+        const [raw, sigil, name] = match
+        const current = stack[stack.length - 1]
+        const index = match.index ?? 0
+        if (index > lastIndex) {
+            current.children.push({ type: 'text', value: template.slice(lastIndex, index) })
+        }
+        lastIndex = index + raw.length
+
+        if (sigil === '#' || sigil === '^') {
+            const section = { type: 'section' as const, name, inverted: sigil === '^', children: [] as TemplateNode[] }
+            current.children.push(section)
+            stack.push(section)
+        }
+        else if (sigil === '/') {
+            if (stack.length === 1 || current.name !== name) {
+                throw new Error(`Unexpected {{/${name}}}`)
+            }
+            stack.pop()
+        }
+        else {
+            current.children.push({ type: 'variable', name, raw })
+        }
+    }
+
+    if (stack.length > 1) {
+        throw new Error(`Missing {{/${stack[stack.length - 1].name}}}`)
+    }
+    if (lastIndex < template.length) {
+        root.push({ type: 'text', value: template.slice(lastIndex) })
+    }
+    return root
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateData[]): string {
+    return nodes.map((node) => {
+        if (node.type === 'text') return node.value
+
+        const scope = findScope(scopes, node.name)
+        const value = scope?.[node.name]
+
+        if (node.type === 'variable') {
+            if (!scope) return node.raw
+            return value === null || value === undefined || Array.isArray(value) ? '' : String(value)
+        }
+
+        const isEmpty = Array.isArray(value) ? value.length === 0 : !value
+        if (node.inverted) return isEmpty ? renderNodes(node.children, scopes) : ''
+        if (isEmpty) return ''
+        if (Array.isArray(value)) {
+            return value.map(item => renderNodes(node.children, [...scopes, item])).join('')
+        }
+        return renderNodes(node.children, scopes)
+    }).join('')
+}
+
+/**
+ * Look up a name from the innermost scope outwards
+ */
+function findScope(scopes: TemplateData[], name: string): TemplateData | undefined {
+    for (let i = scopes.length - 1; i >= 0; i--) {
+        if (name in scopes[i]) return scopes[i]
+    }
+    return undefined
+}
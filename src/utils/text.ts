@@ -3,3 +3,13 @@ export function standardizeLineBreaks(text: string): string {
         .replace(/\r\n/g, '\n')
         .replace(/\r/g, '\n')
 }
+
+/**
+ * Language of a `code` content for the info string of a fence.
+ * The interpreter reports its python code as `unknown`.
+ */
+export function getCodeLanguage(language: string | undefined, recipient = 'all'): string {
+    const lang = language?.trim()
+    if (lang && lang !== 'unknown') return lang
+    return recipient === 'python' ? 'python' : ''
+}
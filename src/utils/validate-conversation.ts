@@ -0,0 +1,194 @@
+import type { ApiConversationWithId, ConversationNode } from '../api'
+
+export interface ConversationIssue {
+    /** errors make the conversation unexportable, warnings do not */
+    severity: 'error' | 'warning'
+    message: string
+    /** the problem has been fixed in place */
+    repaired?: boolean
+}
+
+export interface ConversationValidation {
+    id: string
+    title: string
+    issues: ConversationIssue[]
+    valid: boolean
+}
+
+export interface ValidationResult {
+    /** conversations that can be exported, repaired where possible */
+    conversations: ApiConversationWithId[]
+    /** one entry per conversation that has any issue */
+    reports: ConversationValidation[]
+}
+
+const KnownContentTypes = new Set([
+    'text',
+    'code',
+    'execution_output',
+    'user_editable_context',
+    'tether_quote',
+    'tether_browsing_code',
+    'tether_browsing_display',
+    'multimodal_text',
+    'model_editable_context',
+])
+
+/**
+ * Validate an imported conversation list, eg. `conversations.json` of the
+ * official export. Recoverable problems such as a missing `current_node`
+ * or dangling children are repaired in place.
+ */
+export function validateConversations(data: unknown[]): ValidationResult {
+    const conversations: ApiConversationWithId[] = []
+    const reports: ConversationValidation[] = []
+
+    data.forEach((item, index) => {
+        const report = validateConversation(item, index)
+        if (report.valid) conversations.push(item as ApiConversationWithId)
+        if (report.issues.length > 0) reports.push(report)
+    })
+
+    return { conversations, reports }
+}
+
+function validateConversation(item: unknown, index: number): ConversationValidation {
+    const issues: ConversationIssue[] = []
+    const error = (message: string) => issues.push({ severity: 'error', message })
+    const warning = (message: string, repaired = false) => issues.push({ severity: 'warning', message, repaired })
+
+    const report = (id: string, title: string): ConversationValidation => ({
+        id,
+        title,
+        issues,
+        valid: !issues.some(issue => issue.severity === 'error'),
+    })
+
+    if (!isObject(item)) {
+        error('Not a conversation object')
+        return report(`#${index + 1}`, `#${index + 1}`)
+    }
+
+    const conversation = item as Partial<ApiConversationWithId> & Record<string, unknown>
+    if (typeof conversation.title !== 'string') {
+        conversation.title = ''
+        warning('Missing title', true)
+    }
+    const title = conversation.title || `#${index + 1}`
+
+    if (typeof conversation.id !== 'string' || !conversation.id) {
+        if (typeof conversation.conversation_id === 'string' && conversation.conversation_id) {
+            conversation.id = conversation.conversation_id
+            warning('Missing id, using conversation_id', true)
+        }
+        else {
+            error('Missing id')
+        }
+    }
+    const id = conversation.id || `#${index + 1}`
+
+    if (!isObject(conversation.mapping) || Object.keys(conversation.mapping).length === 0) {
+        error('Missing or empty mapping')
+        return report(id, title)
+    }
+    const mapping = conversation.mapping as Record<string, ConversationNode>
+
+    let droppedMessages = 0
+    let danglingChildren = 0
+    let missingParents = 0
+    const unknownTypes = new Map<string, number>()
+
+    for (const [key, node] of Object.entries(mapping)) {
+        if (!isObject(node)) {
+            delete mapping[key]
+            droppedMessages++
+            continue
+        }
+        if (node.id !== key) node.id = key
+        if (!Array.isArray(node.children)) node.children = []
+
+        const message = node.message
+        if (message !== undefined && message !== null) {
+            if (!isObject(message) || !isObject(message.author) || !isObject(message.content)) {
+                delete node.message
+                droppedMessages++
+            }
+            else {
+                const contentType = message.content.content_type
+                if (!KnownContentTypes.has(contentType)) {
+                    unknownTypes.set(contentType, (unknownTypes.get(contentType) ?? 0) + 1)
+                }
+                if ((contentType === 'text' || contentType === 'multimodal_text') && !Array.isArray(message.content.parts)) {
+                    message.content.parts = []
+                }
+            }
+        }
+    }
+
+    for (const node of Object.values(mapping)) {
+        const children = node.children.filter(childId => childId in mapping)
+        danglingChildren += node.children.length - children.length
+        node.children = children
+
+        if (node.parent && !(node.parent in mapping)) missingParents++
+    }
+
+    if (droppedMessages > 0) {
+        warning(`Removed ${droppedMessages} malformed message(s)`, true)
+    }
+    if (danglingChildren > 0) {
+        warning(`Removed ${danglingChildren} reference(s) to missing child nodes`, true)
+    }
+    if (missingParents > 0) {
+        warning(`${missingParents} node(s) reference a missing parent, the conversation may be incomplete`)
+    }
+    unknownTypes.forEach((count, type) => {
+        warning(`Unknown content type "${type}" in ${count} message(s), it will be exported as unsupported content`)
+    })
+
+    if (hasCycle(mapping)) {
+        error('The mapping contains a cycle')
+        return report(id, title)
+    }
+
+    if (!conversation.current_node || !(conversation.current_node in mapping)) {
+        const leaf = findLatestLeaf(mapping)
+        if (leaf) {
+            warning(conversation.current_node ? 'Invalid current_node, using the latest message' : 'Missing current_node, using the latest message', true)
+            conversation.current_node = leaf.id
+        }
+        else {
+            error('Missing current_node and no message to start from')
+        }
+    }
+
+    return report(id, title)
+}
+
+/**
+ * Walking up the parents of any node must end at a root
+ */
+function hasCycle(mapping: Record<string, ConversationNode>): boolean {
+    const safe = new Set<string>()
+    for (const startId of Object.keys(mapping)) {
+        const path = new Set<string>()
+        let nodeId: string | undefined = startId
+        while (nodeId && mapping[nodeId] && !safe.has(nodeId)) {
+            if (path.has(nodeId)) return true
+            path.add(nodeId)
+            nodeId = mapping[nodeId].parent
+        }
+        path.forEach(id => safe.add(id))
+    }
+    return false
+}
+
+function findLatestLeaf(mapping: Record<string, ConversationNode>): ConversationNode | undefined {
+    return Object.values(mapping)
+        .filter(node => node.children.length === 0)
+        .sort((a, b) => (b.message?.create_time ?? 0) - (a.message?.create_time ?? 0))[0]
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}